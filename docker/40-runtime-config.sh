@@ -0,0 +1,50 @@
+#!/bin/sh
+# Writes /config.json from container env so one image can target any backend.
+# Only keys whose env var is set are written; the rest keep the build-time VITE_* values.
+# A value that is not valid for its key is left out with a warning, so one bad variable
+# cannot make the whole file unreadable.
+set -e
+
+CONFIG_PATH=/usr/share/nginx/html/config.json
+
+warn() {
+  echo "40-runtime-config: ignoring $1: $2" >&2
+}
+
+config='{}'
+
+# add_string KEY VALUE
+add_string() {
+  config=$(printf '%s' "$config" | jq --arg key "$1" --arg value "$2" '.[$key] = $value')
+}
+
+# add_json KEY VALUE FILTER: VALUE must parse as JSON and satisfy FILTER.
+add_json() {
+  if printf '%s' "$2" | jq -e "$3" >/dev/null 2>&1; then
+    config=$(printf '%s' "$config" | jq --arg key "$1" --argjson value "$2" '.[$key] = $value')
+  else
+    return 1
+  fi
+}
+
+if [ -n "$API_BASE_URL" ]; then
+  add_string apiBaseUrl "$API_BASE_URL"
+fi
+if [ -n "$LIVESTREAM_SOCKET_URL" ]; then
+  add_string livestreamSocketUrl "$LIVESTREAM_SOCKET_URL"
+fi
+if [ -n "$ICE_SERVERS" ]; then
+  add_json iceServers "$ICE_SERVERS" \
+    'type == "array" and length > 0 and all(.[]; type == "object" and (.urls | type == "string" or (type == "array" and length > 0 and all(.[]; type == "string"))))' \
+    || warn ICE_SERVERS 'expected a non-empty JSON array of { "urls": ... } objects'
+fi
+if [ -n "$MAX_DIRECT_PEERS" ]; then
+  add_json maxDirectPeers "$MAX_DIRECT_PEERS" 'type == "number" and . > 0 and . == floor' \
+    || warn MAX_DIRECT_PEERS 'expected a positive integer'
+fi
+if [ -n "$FEATURE_FLAGS" ]; then
+  add_json features "$FEATURE_FLAGS" 'type == "object" and all(.[]; type == "boolean")' \
+    || warn FEATURE_FLAGS 'expected a JSON object of booleans'
+fi
+
+printf '%s\n' "$config" > "$CONFIG_PATH"
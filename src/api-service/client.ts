@@ -0,0 +1,80 @@
+import type { AxiosRequestConfig } from 'axios';
+import { api } from '../shared/lib/api-client';
+import type { paths } from './generated/schema';
+import type { UndocumentedPaths, UndocumentedResponses } from './models';
+
+type HttpMethod = 'get' | 'post' | 'put' | 'patch' | 'delete';
+
+type ApiPaths = paths & UndocumentedPaths;
+
+type Operation<P extends keyof ApiPaths, M extends HttpMethod> = M extends keyof ApiPaths[P] ? NonNullable<ApiPaths[P][M]> : never;
+
+export type PathsWithMethod<M extends HttpMethod> = {
+  [P in keyof ApiPaths]: [Operation<P, M>] extends [never] ? never : P;
+}[keyof ApiPaths];
+
+type PathParams<Op> = Op extends { parameters: { path: infer Params } } ? Params : never;
+type RequestBody<Op> = Op extends { requestBody: { content: { 'application/json': infer Body } } }
+  ? Body
+  : Op extends { requestBody: { content: { 'multipart/form-data': unknown } } }
+    ? FormData
+    : never;
+
+type DocumentedResponse<Op> = Op extends { responses: infer Responses }
+  ? {
+      [Status in keyof Responses]: Responses[Status] extends { content: { 'application/json': infer Body } } ? Body : never;
+    }[keyof Responses]
+  : never;
+
+export type ApiResponse<P extends keyof ApiPaths, M extends HttpMethod> = P extends keyof UndocumentedResponses
+  ? M extends keyof UndocumentedResponses[P]
+    ? UndocumentedResponses[P][M]
+    : DocumentedResponse<Operation<P, M>>
+  : DocumentedResponse<Operation<P, M>>;
+
+export type ApiRequestBody<P extends keyof ApiPaths, M extends HttpMethod> = RequestBody<Operation<P, M>>;
+
+type RequestOptions<Op> = ([PathParams<Op>] extends [never] ? { path?: never } : { path: PathParams<Op> }) &
+  ([RequestBody<Op>] extends [never] ? { body?: never } : { body: RequestBody<Op> }) &
+  Pick<AxiosRequestConfig, 'signal' | 'timeout'>;
+
+type RequestArgs<Op> = [PathParams<Op>] extends [never]
+  ? [RequestBody<Op>] extends [never]
+    ? [options?: RequestOptions<Op>]
+    : [options: RequestOptions<Op>]
+  : [options: RequestOptions<Op>];
+
+function buildUrl(template: string, params?: Record<string, string | number>) {
+  return template.replace(/\{(\w+)\}/g, (_, key: string) => {
+    const value = params?.[key];
+    if (value === undefined) {
+      throw new Error(`Missing path param "${key}" for ${template}`);
+    }
+    return encodeURIComponent(String(value));
+  });
+}
+
+function createMethod<M extends HttpMethod>(method: M) {
+  return async <P extends PathsWithMethod<M>>(path: P, ...[options]: RequestArgs<Operation<P, M>>): Promise<ApiResponse<P, M>> => {
+    const { path: params, body, ...config } = (options ?? {}) as { path?: Record<string, string | number>; body?: unknown } & AxiosRequestConfig;
+    const response = await api.request<ApiResponse<P, M>>({
+      ...config,
+      method,
+      url: buildUrl(path, params),
+      data: body,
+    });
+    return response.data;
+  };
+}
+
+/**
+ * Thin wrapper over `api` keyed on the generated OpenAPI `paths`, so routes, path params
+ * and request bodies are checked by `tsc -b` instead of at runtime.
+ */
+export const apiClient = {
+  get: createMethod('get'),
+  post: createMethod('post'),
+  put: createMethod('put'),
+  patch: createMethod('patch'),
+  delete: createMethod('delete'),
+};
@@ -0,0 +1,259 @@
+/**
+ * This file was auto-generated by openapi-typescript.
+ * Do not make direct changes to the file.
+ */
+
+export interface paths {
+    "/livestream/rooms/{roomId}/ice-servers": {
+        parameters: {
+            query?: never;
+            header?: never;
+            path?: never;
+            cookie?: never;
+        };
+        /** STUN/TURN servers for a room, with short-lived TURN credentials */
+        get: {
+            parameters: {
+                query?: never;
+                header?: never;
+                path: {
+                    roomId: components["parameters"]["RoomId"];
+                };
+                cookie?: never;
+            };
+            requestBody?: never;
+            responses: {
+                /** @description ICE servers for the room's peer connections */
+                200: {
+                    headers: {
+                        [name: string]: unknown;
+                    };
+                    content: {
+                        "application/json": components["schemas"]["IceServersResponseDto"];
+                    };
+                };
+            };
+        };
+        put?: never;
+        post?: never;
+        delete?: never;
+        options?: never;
+        head?: never;
+        patch?: never;
+        trace?: never;
+    };
+    "/livestream/rooms/{roomId}/comments": {
+        parameters: {
+            query?: never;
+            header?: never;
+            path?: never;
+            cookie?: never;
+        };
+        /** The most recent comments of a room, oldest first, for backfilling chat on join */
+        get: {
+            parameters: {
+                query?: never;
+                header?: never;
+                path: {
+                    roomId: components["parameters"]["RoomId"];
+                };
+                cookie?: never;
+            };
+            requestBody?: never;
+            responses: {
+                /** @description Recent comments */
+                200: {
+                    headers: {
+                        [name: string]: unknown;
+                    };
+                    content: {
+                        "application/json": components["schemas"]["RoomCommentDto"][];
+                    };
+                };
+            };
+        };
+        put?: never;
+        post?: never;
+        delete?: never;
+        options?: never;
+        head?: never;
+        patch?: never;
+        trace?: never;
+    };
+    "/livestream/rooms/{roomId}/replay": {
+        parameters: {
+            query?: never;
+            header?: never;
+            path?: never;
+            cookie?: never;
+        };
+        /** Recording, comments and product shares of an ended room */
+        get: {
+            parameters: {
+                query?: never;
+                header?: never;
+                path: {
+                    roomId: components["parameters"]["RoomId"];
+                };
+                cookie?: never;
+            };
+            requestBody?: never;
+            responses: {
+                /** @description Replay of the room */
+                200: {
+                    headers: {
+                        [name: string]: unknown;
+                    };
+                    content: {
+                        "application/json": components["schemas"]["RoomReplayDto"];
+                    };
+                };
+            };
+        };
+        put?: never;
+        post?: never;
+        delete?: never;
+        options?: never;
+        head?: never;
+        patch?: never;
+        trace?: never;
+    };
+    "/livestream/rooms/{roomId}/recordings": {
+        parameters: {
+            query?: never;
+            header?: never;
+            path?: never;
+            cookie?: never;
+        };
+        get?: never;
+        put?: never;
+        /** Upload a host recording */
+        post: {
+            parameters: {
+                query?: never;
+                header?: never;
+                path: {
+                    roomId: components["parameters"]["RoomId"];
+                };
+                cookie?: never;
+            };
+            requestBody: {
+                content: {
+                    "multipart/form-data": {
+                        /** @description Recording metadata as JSON */
+                        meta: string;
+                        /** @description One part per video segment, plus the product timeline */
+                        files: string[];
+                    };
+                };
+            };
+            responses: {
+                /** @description The stored recording */
+                201: {
+                    headers: {
+                        [name: string]: unknown;
+                    };
+                    content: {
+                        "application/json": components["schemas"]["UploadedRecordingDto"];
+                    };
+                };
+            };
+        };
+        delete?: never;
+        options?: never;
+        head?: never;
+        patch?: never;
+        trace?: never;
+    };
+}
+export type webhooks = Record<string, never>;
+export interface components {
+    schemas: {
+        /** @description Returned by the room routes, which the backend spec lists without a response body. */
+        RoomDto: {
+            id: string;
+            title: string;
+            /**
+             * @description `scheduled` rooms exist but the seller has not called `/start` yet.
+             * @enum {string}
+             */
+            status: "scheduled" | "active" | "ended";
+            viewerCount: number;
+            sellerId: number;
+        };
+        IceServerDto: {
+            urls: string | string[];
+            username?: string;
+            credential?: string;
+        };
+        IceServersResponseDto: {
+            iceServers: components["schemas"]["IceServerDto"][];
+            /** @description Lifetime of the TURN credentials in `iceServers`; absent for STUN-only lists. */
+            ttlSeconds?: number;
+        };
+        /** @enum {string} */
+        LiveRole: "seller" | "viewer";
+        /** @description A room chat message as the server stores it. */
+        RoomCommentDto: {
+            id: string;
+            roomId: string;
+            userId: number;
+            displayName?: string | null;
+            avatarUrl?: string | null;
+            role?: components["schemas"]["LiveRole"] | null;
+            message: string;
+            /** @description Sent to the host's Q&A queue as well as the chat. */
+            isQuestion?: boolean;
+            /**
+             * Format: date-time
+             * @description Server time, ISO 8601.
+             */
+            createdAt: string;
+        };
+        ReplayCommentDto: {
+            userId: number;
+            /** @description Author identity as the live chat showed it; older replays may lack it. */
+            displayName?: string | null;
+            role?: components["schemas"]["LiveRole"] | null;
+            message: string;
+            /** @description Offset into the recording. */
+            atMs: number;
+        };
+        /** @description Same as `ProductDto` in the backend spec. */
+        ProductDto: {
+            id: number;
+            title: string;
+            description: string;
+            price: number;
+            imageUrl: string;
+            /** @enum {string} */
+            status: "DRAFT" | "LIVE" | "ACTIVE" | "OUT_OF_STOCK" | "ARCHIVED";
+            sellerId: number;
+        };
+        ReplayProductMomentDto: {
+            product: components["schemas"]["ProductDto"];
+            atMs: number;
+        };
+        RoomReplayDto: {
+            roomId: string;
+            title: string;
+            videoUrl: string;
+            durationMs: number;
+            comments: components["schemas"]["ReplayCommentDto"][];
+            products: components["schemas"]["ReplayProductMomentDto"][];
+        };
+        UploadedRecordingDto: {
+            id: string;
+            roomId: string;
+        };
+    };
+    responses: never;
+    parameters: {
+        RoomId: string;
+    };
+    requestBodies: never;
+    headers: never;
+    pathItems: never;
+}
+export type $defs = Record<string, never>;
+export type operations = Record<string, never>;
@@ -1,12 +1,56 @@
-import MainAppPage from '../modules/livestream/pages/MainAppPage';
-import FramerPreviewPage from '../modules/showcase/pages/FramerPreviewPage';
+import { createBrowserRouter, RouterProvider } from 'react-router-dom';
+import RoomAccessGuard from '../modules/livestream/guards/RoomAccessGuard';
+import NotFoundPage from './NotFoundPage';
+import RequireAuth from './RequireAuth';
+import RouteFallback from './RouteFallback';
+import { routePatterns } from './routes';
 
-export default function AppRouter() {
-  const path = window.location.pathname;
-
-  if (path.startsWith('/join-room/') || path.startsWith('/host-room/')) {
-    return <MainAppPage />;
-  }
+// Each page is loaded with `lazy` so the Three.js showcase and the WebRTC room pages ship as separate chunks.
+const router = createBrowserRouter([
+  {
+    path: routePatterns.home,
+    lazy: async () => ({ Component: (await import('../modules/showcase/pages/FramerPreviewPage')).default }),
+  },
+  {
+    path: routePatterns.dashboard,
+    lazy: async () => ({ Component: (await import('../modules/livestream/pages/MainAppPage')).default }),
+  },
+  {
+    element: <RequireAuth />,
+    children: [
+      {
+        path: routePatterns.hostRoom,
+        element: <RoomAccessGuard role="seller" />,
+        children: [
+          {
+            index: true,
+            lazy: async () => ({ Component: (await import('../modules/livestream/pages/HostRoomPage')).default }),
+          },
+        ],
+      },
+    ],
+  },
+  {
+    path: routePatterns.joinRoom,
+    element: <RoomAccessGuard role="viewer" />,
+    children: [
+      {
+        index: true,
+        lazy: async () => ({ Component: (await import('../modules/livestream/pages/JoinRoomPage')).default }),
+      },
+    ],
+  },
+  {
+    path: routePatterns.replay,
+    lazy: async () => ({ Component: (await import('../modules/livestream/pages/ReplayPage')).default }),
+  },
+  {
+    path: routePatterns.loopbackDemo,
+    lazy: async () => ({ Component: (await import('../modules/livestream/pages/LoopbackDemoPage')).default }),
+  },
+  { path: '*', element: <NotFoundPage /> },
+]);
 
-  return <FramerPreviewPage />;
+export default function AppRouter() {
+  return <RouterProvider router={router} fallbackElement={<RouteFallback />} />;
 }
@@ -0,0 +1,26 @@
+import { Link } from 'react-router-dom';
+import { useTranslation } from '../shared/i18n/use-translation';
+import StatusScreen, { statusPrimaryActionClass, statusSecondaryActionClass } from '../shared/components/StatusScreen';
+import { paths } from './routes';
+
+export default function NotFoundPage() {
+  const { t } = useTranslation();
+
+  return (
+    <StatusScreen
+      eyebrow="404"
+      title={t('notFound.title')}
+      description={t('notFound.description')}
+      actions={
+        <>
+          <Link className={statusPrimaryActionClass} to={paths.home()}>
+            {t('common.home')}
+          </Link>
+          <Link className={statusSecondaryActionClass} to={paths.dashboard()}>
+            {t('common.dashboard')}
+          </Link>
+        </>
+      }
+    />
+  );
+}
@@ -0,0 +1,17 @@
+import { Navigate, Outlet, useLocation } from 'react-router-dom';
+import { useSession } from '../shared/session/use-session';
+import RouteFallback from './RouteFallback';
+import { paths } from './routes';
+
+export default function RequireAuth() {
+  const { isAuthenticated, profileQuery } = useSession();
+  const location = useLocation();
+
+  if (!isAuthenticated) {
+    return <Navigate to={paths.login(`${location.pathname}${location.search}`)} replace />;
+  }
+  if (profileQuery.isPending) {
+    return <RouteFallback />;
+  }
+  return <Outlet />;
+}
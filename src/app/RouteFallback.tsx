@@ -0,0 +1,6 @@
+import { useTranslation } from '../shared/i18n/use-translation';
+
+export default function RouteFallback() {
+  const { t } = useTranslation();
+  return <div className="flex min-h-screen items-center justify-center bg-slate-100 text-sm text-slate-500">{t('common.loading')}</div>;
+}
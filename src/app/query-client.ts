@@ -0,0 +1,36 @@
+import { MutationCache, QueryCache, QueryClient } from '@tanstack/react-query';
+import { normalizeApiError } from '../shared/lib/api-error';
+import { notifyError } from '../shared/lib/notifications';
+
+type AppQueryMeta = {
+  /** Skip the global error toast because the caller renders the failure itself. */
+  silent?: boolean;
+  /** Skip the toast for validation errors; the caller passes them to `applyServerFieldErrors`, which toasts what it cannot map. */
+  inlineValidation?: boolean;
+  errorTitle?: string;
+};
+
+declare module '@tanstack/react-query' {
+  interface Register {
+    queryMeta: AppQueryMeta;
+    mutationMeta: AppQueryMeta;
+  }
+}
+
+function reportError(error: unknown, meta: AppQueryMeta | undefined) {
+  if (meta?.silent || (meta?.inlineValidation && normalizeApiError(error).kind === 'validation')) {
+    return;
+  }
+  notifyError(error, { title: meta?.errorTitle });
+}
+
+export function createQueryClient() {
+  return new QueryClient({
+    queryCache: new QueryCache({
+      onError: (error, query) => reportError(error, query.meta),
+    }),
+    mutationCache: new MutationCache({
+      onError: (error, _variables, _context, mutation) => reportError(error, mutation.meta),
+    }),
+  });
+}
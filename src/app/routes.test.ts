@@ -0,0 +1,30 @@
+import { describe, expect, it } from 'vitest';
+import { sanitizeReturnTo } from './routes';
+
+const ORIGIN = 'https://shop.example';
+
+describe('sanitizeReturnTo', () => {
+  it('keeps same-origin paths with their query and hash', () => {
+    expect(sanitizeReturnTo('/host-room/abc?relay=1#chat', ORIGIN)).toBe('/host-room/abc?relay=1#chat');
+  });
+
+  it('rejects missing, relative and absolute values', () => {
+    expect(sanitizeReturnTo(null, ORIGIN)).toBeNull();
+    expect(sanitizeReturnTo('', ORIGIN)).toBeNull();
+    expect(sanitizeReturnTo('dashboard', ORIGIN)).toBeNull();
+    expect(sanitizeReturnTo('https://evil.com/', ORIGIN)).toBeNull();
+    expect(sanitizeReturnTo('javascript:alert(1)', ORIGIN)).toBeNull();
+  });
+
+  it('rejects protocol-relative paths, including backslash and whitespace variants', () => {
+    expect(sanitizeReturnTo('//evil.com', ORIGIN)).toBeNull();
+    expect(sanitizeReturnTo('/\\evil.com', ORIGIN)).toBeNull();
+    expect(sanitizeReturnTo('/\\\\evil.com/path', ORIGIN)).toBeNull();
+    expect(sanitizeReturnTo('/\t/evil.com', ORIGIN)).toBeNull();
+  });
+
+  it('keeps encoded slashes as a path on this origin', () => {
+    expect(sanitizeReturnTo('/%2F%2Fevil.com', ORIGIN)).toBe('/%2F%2Fevil.com');
+    expect(sanitizeReturnTo('/%5Cevil.com', ORIGIN)).toBe('/%5Cevil.com');
+  });
+});
@@ -0,0 +1,53 @@
+import { useParams } from 'react-router-dom';
+
+export const routePatterns = {
+  home: '/',
+  dashboard: '/dashboard',
+  hostRoom: '/host-room/:roomId',
+  joinRoom: '/join-room/:roomId',
+  replay: '/replay/:roomId',
+  loopbackDemo: '/demo/loopback',
+} as const;
+
+export const paths = {
+  home: () => routePatterns.home,
+  login: (returnTo?: string) => {
+    const params = new URLSearchParams({ auth: 'login' });
+    if (returnTo) {
+      params.set('returnTo', returnTo);
+    }
+    return `${routePatterns.home}?${params.toString()}`;
+  },
+  dashboard: () => routePatterns.dashboard,
+  hostRoom: (roomId: string) => `/host-room/${encodeURIComponent(roomId)}`,
+  joinRoom: (roomId: string) => `/join-room/${encodeURIComponent(roomId)}`,
+  replay: (roomId: string) => `/replay/${encodeURIComponent(roomId)}`,
+  loopbackDemo: () => routePatterns.loopbackDemo,
+};
+
+export function toAbsoluteUrl(path: string) {
+  return `${window.location.origin}${path}`;
+}
+
+// Only same-origin paths are accepted so a crafted login link cannot bounce users to another site.
+// The URL parser decides, because browsers read `/\evil.com` and similar as protocol-relative.
+export function sanitizeReturnTo(returnTo: string | null, origin = window.location.origin) {
+  if (!returnTo || !returnTo.startsWith('/')) {
+    return null;
+  }
+  let url: URL;
+  try {
+    url = new URL(returnTo, origin);
+  } catch {
+    return null;
+  }
+  return url.origin === origin ? `${url.pathname}${url.search}${url.hash}` : null;
+}
+
+export function useRoomIdParam() {
+  const { roomId } = useParams<'roomId'>();
+  if (!roomId) {
+    throw new Error('Route is missing the :roomId param');
+  }
+  return roomId;
+}
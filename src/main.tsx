@@ -1,16 +1,28 @@
 import React from 'react';
 import ReactDOM from 'react-dom/client';
-import { QueryClient, QueryClientProvider } from '@tanstack/react-query';
+import { QueryClientProvider } from '@tanstack/react-query';
 import { ChakraProvider } from '@chakra-ui/react';
 import AppRouter from './app/AppRouter';
+import { createQueryClient } from './app/query-client';
+import { syncDocumentLocale } from './shared/i18n/i18n';
+import { setRecordingUploader, uploadRecordingToServer } from './modules/livestream/recording/recording-files';
+import { loadAppConfig } from './shared/lib/app-config';
+import { ToastContainer } from './shared/lib/notifications';
+import { startSessionSync } from './shared/session/session';
 import './styles.css';
 
-const queryClient = new QueryClient();
+const queryClient = createQueryClient();
+startSessionSync(queryClient);
+syncDocumentLocale();
+setRecordingUploader(uploadRecordingToServer);
 
-ReactDOM.createRoot(document.getElementById('root')!).render(
-  <ChakraProvider>
-    <QueryClientProvider client={queryClient}>
-      <AppRouter />
-    </QueryClientProvider>
-  </ChakraProvider>,
-);
+void loadAppConfig().then(() => {
+  ReactDOM.createRoot(document.getElementById('root')!).render(
+    <ChakraProvider>
+      <QueryClientProvider client={queryClient}>
+        <AppRouter />
+      </QueryClientProvider>
+      <ToastContainer />
+    </ChakraProvider>,
+  );
+});
@@ -0,0 +1,52 @@
+import { describe, expect, it } from 'vitest';
+import { mergeChatMessages, toChatMessage } from './chat-model';
+
+const ROOM_ID = 'room-1';
+const SENT_AT = '2026-10-18T10:00:00.000Z';
+
+const local = (message: string, createdAt = SENT_AT) => toChatMessage({ roomId: ROOM_ID, userId: 7, message, createdAt });
+const server = (id: string, message: string, createdAt = '2026-10-18T10:00:01.000Z') => toChatMessage({ id, roomId: ROOM_ID, userId: 7, message, createdAt });
+
+describe('mergeChatMessages', () => {
+  it('unions history and live messages by ID in server-time order', () => {
+    const history = [server('a', 'first', '2026-10-18T09:00:00.000Z'), server('b', 'second', '2026-10-18T09:01:00.000Z')];
+    const live = [server('b', 'second', '2026-10-18T09:01:00.000Z'), server('c', 'third', '2026-10-18T09:02:00.000Z')];
+
+    expect(mergeChatMessages(history, live).map(({ id }) => id)).toEqual(['a', 'b', 'c']);
+  });
+
+  it('replaces a local message in current with its server copy from incoming', () => {
+    const merged = mergeChatMessages([local('hello')], [server('s1', 'hello')]);
+
+    expect(merged.map(({ id }) => id)).toEqual(['s1']);
+  });
+
+  it('drops a local message in incoming whose server copy is already in current', () => {
+    // The history refetch brought the server copy before the socket echo reached the live list.
+    const merged = mergeChatMessages([server('s1', 'hello')], [local('hello')]);
+
+    expect(merged.map(({ id }) => id)).toEqual(['s1']);
+  });
+
+  it('keeps one local copy per unmatched send of the same text', () => {
+    const merged = mergeChatMessages([server('s1', 'hi')], [local('hi'), local('hi', '2026-10-18T10:00:02.000Z')]);
+
+    expect(merged).toHaveLength(2);
+    expect(merged.filter(({ isLocal }) => isLocal)).toHaveLength(1);
+  });
+
+  it('keeps local messages that have no server copy within the echo window', () => {
+    const merged = mergeChatMessages([server('s1', 'hello', '2026-10-18T10:05:00.000Z')], [local('hello')]);
+
+    expect(merged).toHaveLength(2);
+  });
+
+  it('keeps pending local messages after the server messages whatever the client clock says', () => {
+    // The sender's clock runs an hour ahead of the server's, then an hour behind.
+    const ahead = local('ahead', '2026-10-18T11:00:00.000Z');
+    const behind = local('behind', '2026-10-18T09:00:00.000Z');
+    const merged = mergeChatMessages([ahead, server('s1', 'earlier', '2026-10-18T10:00:00.000Z')], [behind, server('s2', 'later', '2026-10-18T10:01:00.000Z')]);
+
+    expect(merged.map(({ message }) => message)).toEqual(['earlier', 'later', 'ahead', 'behind']);
+  });
+});
@@ -0,0 +1,89 @@
+import type { RoomComment } from '../../../api-service/models';
+import type { LiveRole } from '../types';
+
+export type ChatMessage = {
+  id: string;
+  userId: number;
+  displayName: string | null;
+  avatarUrl: string | null;
+  role: LiveRole | null;
+  message: string;
+  isQuestion: boolean;
+  createdAt: string;
+  /** The server sent no ID, so this one is made up locally; moderation needs the server's ID. */
+  isLocal: boolean;
+};
+
+/** `comment_created` payloads; servers that predate message IDs only send the first three fields. */
+export type CommentPayload = Partial<RoomComment> & Pick<RoomComment, 'roomId' | 'userId' | 'message'>;
+
+/** Outgoing `send_comment` payload. */
+export type SendCommentPayload = {
+  roomId: string;
+  userId: number;
+  message: string;
+  displayName: string | null;
+  role: LiveRole;
+  isQuestion?: boolean;
+};
+
+// The list is virtualised, so this only bounds memory over a long show.
+const MAX_MESSAGES = 500;
+// How far apart a locally-keyed message and its copy with a server ID may be stamped.
+const LOCAL_ECHO_WINDOW_MS = 10_000;
+
+let localSequence = 0;
+
+export function toChatMessage(payload: CommentPayload): ChatMessage {
+  const createdAt = payload.createdAt ?? new Date().toISOString();
+  return {
+    id: payload.id ?? `local-${payload.userId}-${Date.parse(createdAt)}-${(localSequence += 1)}`,
+    userId: payload.userId,
+    displayName: payload.displayName ?? null,
+    avatarUrl: payload.avatarUrl ?? null,
+    role: payload.role ?? null,
+    message: payload.message,
+    isQuestion: payload.isQuestion ?? false,
+    createdAt,
+    isLocal: !payload.id,
+  };
+}
+
+const isEchoOf = (local: ChatMessage, message: ChatMessage) =>
+  local.isLocal &&
+  !message.isLocal &&
+  local.userId === message.userId &&
+  local.message === message.message &&
+  Math.abs(Date.parse(local.createdAt) - Date.parse(message.createdAt)) < LOCAL_ECHO_WINDOW_MS;
+
+/**
+ * Union by message ID in server-time order, so backfilled history and live events can overlap freely.
+ * A locally-keyed message is dropped once its copy with a server ID is on either side, so it does not
+ * matter whether the history refetch or the socket echo brings that copy first. Until then it stays
+ * at the end in arrival order: its timestamp comes from the client clock and cannot be ordered
+ * against the server's.
+ */
+export function mergeChatMessages(current: ChatMessage[], incoming: ChatMessage[]) {
+  const byId = new Map(current.map((message) => [message.id, message]));
+  incoming.forEach((message) => byId.set(message.id, message));
+  const serverCopies = [...byId.values()].filter((message) => !message.isLocal);
+  // Each server copy stands in for one local message, so the same text sent twice is not collapsed.
+  const matched = new Set<string>();
+  [...byId.values()].forEach((local) => {
+    const echo = serverCopies.find((message) => !matched.has(message.id) && isEchoOf(local, message));
+    if (echo) {
+      matched.add(echo.id);
+      byId.delete(local.id);
+    }
+  });
+  const messages = [...byId.values()];
+  const fromServer = messages
+    .filter((message) => !message.isLocal)
+    .sort((a, b) => Date.parse(a.createdAt) - Date.parse(b.createdAt) || a.id.localeCompare(b.id));
+  return [...fromServer, ...messages.filter((message) => message.isLocal)].slice(-MAX_MESSAGES);
+}
+
+/** Name shown for the signed-in user; the server may replace it with a profile name. */
+export function displayNameFromEmail(email: string | undefined) {
+  return email ? email.split('@')[0] : null;
+}
@@ -0,0 +1,130 @@
+import type { ChatMessage } from './chat-model';
+
+export type ChatSettings = {
+  /** Minimum gap between two messages from the same viewer; 0 turns slow mode off. */
+  slowModeSeconds: number;
+  blockedWords: string[];
+};
+
+export type UserModerationAction = 'timeout' | 'ban' | 'lift';
+
+export type HiddenReason = 'deleted' | 'banned' | 'filtered';
+
+/** Seller → server: `delete_comment`; the server answers every client with `comment_hidden`. */
+export type CommentHiddenPayload = {
+  roomId: string;
+  commentId: string;
+};
+
+/** Seller → server: `moderate_user`; the server answers every client with `user_moderated`. */
+export type UserModeratedPayload = {
+  roomId: string;
+  userId: number;
+  action: UserModerationAction;
+  /** End of a timeout, ISO 8601; null for bans and lifts. */
+  until: string | null;
+};
+
+/** Seller → server: `update_chat_settings`; the server also sends `chat_settings_updated` on join. */
+export type ChatSettingsPayload = ChatSettings & {
+  roomId: string;
+};
+
+/** Viewer → server: `report_comment`; the server relays it to the seller as `comment_reported`. */
+export type CommentReportPayload = {
+  roomId: string;
+  commentId: string;
+  reporterId: number;
+};
+
+export type ChatModeration = {
+  hiddenIds: ReadonlySet<string>;
+  bannedUserIds: ReadonlySet<number>;
+  /** Timed-out user → end of the timeout (epoch ms). */
+  timeouts: ReadonlyMap<number, number>;
+  /** Comment → number of viewers who reported it. */
+  reports: ReadonlyMap<string, number>;
+  settings: ChatSettings;
+};
+
+export type ChatRestriction = { kind: 'banned' } | { kind: 'timeout'; until: number };
+
+export type ModeratedChatMessage = ChatMessage & {
+  hiddenReason: HiddenReason | null;
+  reports: number;
+};
+
+export const TIMEOUT_MS = 5 * 60_000;
+
+export const SLOW_MODE_OPTIONS = [0, 5, 10, 30, 60];
+
+export const initialChatModeration: ChatModeration = {
+  hiddenIds: new Set(),
+  bannedUserIds: new Set(),
+  timeouts: new Map(),
+  reports: new Map(),
+  settings: { slowModeSeconds: 0, blockedWords: [] },
+};
+
+export function hideComment(state: ChatModeration, { commentId }: CommentHiddenPayload): ChatModeration {
+  return { ...state, hiddenIds: new Set(state.hiddenIds).add(commentId) };
+}
+
+export function moderateUser(state: ChatModeration, { userId, action, until }: UserModeratedPayload): ChatModeration {
+  const bannedUserIds = new Set(state.bannedUserIds);
+  const timeouts = new Map(state.timeouts);
+  bannedUserIds.delete(userId);
+  timeouts.delete(userId);
+  if (action === 'ban') {
+    bannedUserIds.add(userId);
+  }
+  if (action === 'timeout' && until) {
+    timeouts.set(userId, Date.parse(until));
+  }
+  return { ...state, bannedUserIds, timeouts };
+}
+
+export function reportComment(state: ChatModeration, { commentId }: CommentReportPayload): ChatModeration {
+  return { ...state, reports: new Map(state.reports).set(commentId, (state.reports.get(commentId) ?? 0) + 1) };
+}
+
+export function updateChatSettings(state: ChatModeration, { slowModeSeconds, blockedWords }: ChatSettingsPayload): ChatModeration {
+  return { ...state, settings: { slowModeSeconds, blockedWords } };
+}
+
+/** Case-insensitive substring match, so "bit.ly" also catches "BIT.LY/xyz". */
+export function findBlockedWord(message: string, blockedWords: string[]) {
+  const text = message.toLocaleLowerCase();
+  return blockedWords.find((word) => word && text.includes(word.toLocaleLowerCase())) ?? null;
+}
+
+/** Comma- or newline-separated input from the settings form, trimmed and de-duplicated. */
+export function parseBlockedWords(input: string) {
+  return [...new Set(input.split(/[,\n]/).map((word) => word.trim()).filter(Boolean))];
+}
+
+export function restrictionFor(state: ChatModeration, userId: number, now = Date.now()): ChatRestriction | null {
+  if (state.bannedUserIds.has(userId)) {
+    return { kind: 'banned' };
+  }
+  const until = state.timeouts.get(userId);
+  return until && until > now ? { kind: 'timeout', until } : null;
+}
+
+/**
+ * The server drops deleted and filtered comments for late joiners; these marks cover what already
+ * reached this client. A banned user's earlier messages are hidden along with them.
+ */
+export function applyModeration(messages: ChatMessage[], state: ChatModeration): ModeratedChatMessage[] {
+  return messages.map((message) => {
+    let hiddenReason: HiddenReason | null = null;
+    if (state.hiddenIds.has(message.id)) {
+      hiddenReason = 'deleted';
+    } else if (state.bannedUserIds.has(message.userId)) {
+      hiddenReason = 'banned';
+    } else if (message.role !== 'seller' && findBlockedWord(message.message, state.settings.blockedWords)) {
+      hiddenReason = 'filtered';
+    }
+    return { ...message, hiddenReason, reports: state.reports.get(message.id) ?? 0 };
+  });
+}
@@ -0,0 +1,77 @@
+import type { ChatMessage } from './chat-model';
+import type { ModeratedChatMessage } from './chat-moderation';
+
+/** A chat message or a seller announcement shown above every viewer's chat. */
+export type PinnedMessage = {
+  id: string;
+  userId: number;
+  displayName: string | null;
+  message: string;
+  pinnedAt: string;
+};
+
+export type QuestionStatus = 'open' | 'answered';
+
+/** Seller → server: `pin_message`; the server broadcasts `message_pinned` and repeats it on join. */
+export type PinnedMessagePayload = {
+  roomId: string;
+  pinned: PinnedMessage | null;
+};
+
+/** Seller → server: `update_question`; the server broadcasts `question_updated`. */
+export type QuestionUpdatedPayload = {
+  roomId: string;
+  commentId: string;
+  status: QuestionStatus;
+};
+
+/** Seller → server: `highlight_question`; the server broadcasts `question_highlighted`. */
+export type QuestionHighlightedPayload = {
+  roomId: string;
+  commentId: string | null;
+};
+
+export type ChatQa = {
+  pinned: PinnedMessage | null;
+  answeredIds: ReadonlySet<string>;
+  highlightedId: string | null;
+};
+
+export const initialChatQa: ChatQa = {
+  pinned: null,
+  answeredIds: new Set(),
+  highlightedId: null,
+};
+
+export function pinMessage(state: ChatQa, { pinned }: PinnedMessagePayload): ChatQa {
+  return { ...state, pinned };
+}
+
+export function updateQuestion(state: ChatQa, { commentId, status }: QuestionUpdatedPayload): ChatQa {
+  const answeredIds = new Set(state.answeredIds);
+  if (status === 'answered') {
+    answeredIds.add(commentId);
+  } else {
+    answeredIds.delete(commentId);
+  }
+  // Answering the question on screen also takes it down.
+  const highlightedId = status === 'answered' && state.highlightedId === commentId ? null : state.highlightedId;
+  return { ...state, answeredIds, highlightedId };
+}
+
+export function highlightQuestion(state: ChatQa, { commentId }: QuestionHighlightedPayload): ChatQa {
+  return { ...state, highlightedId: commentId };
+}
+
+export function toPinnedMessage(message: ChatMessage): PinnedMessage {
+  return { id: message.id, userId: message.userId, displayName: message.displayName, message: message.message, pinnedAt: new Date().toISOString() };
+}
+
+/** Open questions oldest first, then answered ones newest first; moderated questions drop out. */
+export function questionQueue(messages: ModeratedChatMessage[], state: ChatQa) {
+  const questions = messages.filter((message) => message.isQuestion && !message.hiddenReason);
+  return {
+    open: questions.filter((message) => !state.answeredIds.has(message.id)),
+    answered: questions.filter((message) => state.answeredIds.has(message.id)).reverse(),
+  };
+}
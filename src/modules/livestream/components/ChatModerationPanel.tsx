@@ -0,0 +1,81 @@
+import { useEffect, useState } from 'react';
+import { useTranslation } from '../../../shared/i18n/use-translation';
+import type { ChatMessage } from '../chat/chat-model';
+import { parseBlockedWords, SLOW_MODE_OPTIONS, type ChatModeration, type ChatSettings } from '../chat/chat-moderation';
+
+type ChatModerationPanelProps = {
+  moderation: ChatModeration;
+  /** Used to put names on restricted user IDs. */
+  messages: ChatMessage[];
+  onSettingsChange: (settings: ChatSettings) => void;
+  onLift: (userId: number) => void;
+  /** True while the room socket is down, since changes only apply once the server echoes them. */
+  disabled?: boolean;
+};
+
+/** Seller's room-wide chat rules and the list of banned or timed-out viewers. */
+export default function ChatModerationPanel({ moderation, messages, onSettingsChange, onLift, disabled = false }: ChatModerationPanelProps) {
+  const { t, locale } = useTranslation();
+  const { settings } = moderation;
+  const [wordsDraft, setWordsDraft] = useState(settings.blockedWords.join(', '));
+
+  // Settings echoed back by the server (or restored on re-join) replace the draft.
+  useEffect(() => {
+    setWordsDraft(settings.blockedWords.join(', '));
+  }, [settings.blockedWords]);
+
+  const nameOf = (userId: number) => messages.find((message) => message.userId === userId && message.displayName)?.displayName ?? t('chat.guest', { id: userId });
+  const restricted = [
+    ...[...moderation.bannedUserIds].map((userId) => ({ userId, label: t('moderation.banned') })),
+    ...[...moderation.timeouts]
+      .filter(([, until]) => until > Date.now())
+      .map(([userId, until]) => ({ userId, label: t('moderation.timedOutUntil', { time: new Date(until).toLocaleTimeString(locale, { hour: '2-digit', minute: '2-digit' }) }) })),
+  ];
+  const wordsChanged = parseBlockedWords(wordsDraft).join('\n') !== settings.blockedWords.join('\n');
+
+  return (
+    <div className="rounded-2xl border bg-white p-4 text-sm">
+      <p className="mb-2 font-semibold">{t('moderation.title')}</p>
+      <label className="flex items-center justify-between gap-2">
+        <span>{t('moderation.slowMode')}</span>
+        <select
+          className="rounded-md border px-2 py-1"
+          value={settings.slowModeSeconds}
+          disabled={disabled}
+          onChange={(e) => onSettingsChange({ ...settings, slowModeSeconds: Number(e.target.value) })}
+        >
+          {SLOW_MODE_OPTIONS.map((seconds) => (
+            <option key={seconds} value={seconds}>
+              {seconds ? t('moderation.slowModeSeconds', { seconds }) : t('moderation.slowModeOff')}
+            </option>
+          ))}
+        </select>
+      </label>
+      <label className="mt-3 block">
+        <span>{t('moderation.blockedWords')}</span>
+        <textarea className="mt-1 w-full rounded-md border px-2 py-1" rows={2} value={wordsDraft} onChange={(e) => setWordsDraft(e.target.value)} placeholder={t('moderation.blockedWordsPlaceholder')} />
+      </label>
+      <button
+        className="rounded-md bg-slate-900 px-3 py-1 text-white disabled:opacity-60"
+        onClick={() => onSettingsChange({ ...settings, blockedWords: parseBlockedWords(wordsDraft) })}
+        disabled={disabled || !wordsChanged}
+      >
+        {t('moderation.saveWords')}
+      </button>
+      {restricted.length > 0 && (
+        <ul className="mt-3 space-y-1">
+          {restricted.map(({ userId, label }) => (
+            <li key={userId} className="flex items-center justify-between gap-2 rounded-md bg-slate-50 px-2 py-1">
+              <span>
+                <span className="font-medium">{nameOf(userId)}</span> <span className="text-xs text-slate-500">{label}</span>
+              </span>
+              <button className="text-xs text-cyan-700 disabled:opacity-40" onClick={() => onLift(userId)} disabled={disabled}>
+                {t('moderation.lift')}
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,253 @@
+import { useEffect, useState } from 'react';
+import { useTranslation } from '../../../shared/i18n/use-translation';
+import type { ChatMessage } from '../chat/chat-model';
+import { findBlockedWord, type ChatRestriction, type ChatSettings, type ModeratedChatMessage } from '../chat/chat-moderation';
+import type { ChatQa } from '../chat/chat-qa';
+import { useVirtualList } from '../hooks/use-virtual-list';
+
+/** Seller-only actions; passing them also reveals the text of hidden messages. */
+type ChatModerationActions = {
+  onDelete: (message: ModeratedChatMessage) => void;
+  onTimeout: (userId: number) => void;
+  onBan: (userId: number) => void;
+  onPin: (message: ModeratedChatMessage) => void;
+  onUnpin: () => void;
+  /** True while the room socket is down: the actions only take effect once the server echoes them. */
+  disabled?: boolean;
+};
+
+type ChatPanelProps = {
+  messages: ModeratedChatMessage[];
+  sellerId: number | null;
+  currentUserId: number | null;
+  isLoadingHistory?: boolean;
+  onSend: (message: string, isQuestion: boolean) => void;
+  /** Pinned message and answered questions, as last broadcast by the seller. */
+  qa?: ChatQa;
+  /** Viewer: shows the "ask as a question" toggle. */
+  canAskQuestions?: boolean;
+  moderation?: ChatModerationActions;
+  onReport?: (message: ModeratedChatMessage) => void;
+  /** Viewer: slow mode and blocked words are checked before sending, the server enforces them again. */
+  rules?: ChatSettings;
+  restriction?: ChatRestriction | null;
+};
+
+const getMessageKey = (message: ChatMessage) => message.id;
+
+const actionClass = 'rounded px-1 text-[10px] text-slate-500 hover:bg-slate-100 hover:text-slate-800 disabled:opacity-40';
+
+/** Messages after `lastSeen`; once it has been trimmed off the front of the list, the ones stamped later than it. */
+function countUnseen(messages: ChatMessage[], lastSeen: Pick<ChatMessage, 'id' | 'createdAt'> | null) {
+  if (!lastSeen) {
+    return messages.length;
+  }
+  const index = messages.findIndex((message) => message.id === lastSeen.id);
+  if (index >= 0) {
+    return messages.length - 1 - index;
+  }
+  const seenAt = Date.parse(lastSeen.createdAt);
+  return messages.filter((message) => Date.parse(message.createdAt) > seenAt).length;
+}
+
+function Avatar({ message, label }: { message: ChatMessage; label: string }) {
+  if (message.avatarUrl) {
+    return <img src={message.avatarUrl} alt="" className="h-7 w-7 shrink-0 rounded-full object-cover" />;
+  }
+  return (
+    <span className="flex h-7 w-7 shrink-0 items-center justify-center rounded-full bg-slate-200 text-xs font-semibold uppercase text-slate-600" aria-hidden>
+      {label.replace('#', '').slice(0, 2)}
+    </span>
+  );
+}
+
+/** Room chat shared by the host console and the viewer page. */
+export default function ChatPanel({ messages, sellerId, currentUserId, isLoadingHistory, onSend, qa, canAskQuestions, moderation, onReport, rules, restriction }: ChatPanelProps) {
+  const { t, locale } = useTranslation();
+  const [draft, setDraft] = useState('');
+  const [isQuestion, setIsQuestion] = useState(false);
+  const [draftError, setDraftError] = useState<string | null>(null);
+  const [cooldownUntil, setCooldownUntil] = useState(0);
+  const [reportedIds, setReportedIds] = useState<ReadonlySet<string>>(new Set());
+  const [now, setNow] = useState(Date.now);
+  const { scrollRef, onScroll, totalSize, rows, measure, atEnd, scrollToEnd } = useVirtualList({ items: messages, getKey: getMessageKey, estimateSize: 44 });
+  const lastMessage = messages.length ? messages[messages.length - 1] : null;
+  const [lastSeen, setLastSeen] = useState(lastMessage && { id: lastMessage.id, createdAt: lastMessage.createdAt });
+
+  useEffect(() => {
+    if (atEnd) {
+      setLastSeen(lastMessage && { id: lastMessage.id, createdAt: lastMessage.createdAt });
+    }
+  }, [atEnd, lastMessage?.id]);
+
+  const waitUntil = Math.max(cooldownUntil, restriction?.kind === 'timeout' ? restriction.until : 0);
+  const waitSeconds = Math.ceil((waitUntil - now) / 1000);
+
+  // Ticks the slow-mode and timeout countdowns; stops once the composer is free again.
+  useEffect(() => {
+    if (waitUntil <= Date.now()) {
+      return;
+    }
+    setNow(Date.now());
+    const timer = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(timer);
+  }, [waitUntil]);
+
+  const unseen = atEnd ? 0 : countUnseen(messages, lastSeen);
+
+  const submit = () => {
+    const message = draft.trim();
+    if (!message || waitSeconds > 0 || restriction?.kind === 'banned') {
+      return;
+    }
+    const blockedWord = rules && findBlockedWord(message, rules.blockedWords);
+    if (blockedWord) {
+      setDraftError(t('chat.blockedWord', { word: blockedWord }));
+      return;
+    }
+    onSend(message, isQuestion);
+    setDraft('');
+    setIsQuestion(false);
+    setDraftError(null);
+    if (rules?.slowModeSeconds) {
+      setCooldownUntil(Date.now() + rules.slowModeSeconds * 1000);
+    }
+    scrollToEnd();
+  };
+
+  const report = (message: ModeratedChatMessage) => {
+    onReport?.(message);
+    setReportedIds((prev) => new Set(prev).add(message.id));
+  };
+
+  return (
+    <div className="rounded-2xl border bg-white p-4">
+      <p className="mb-2 font-semibold">{t('room.liveComments')}</p>
+      {qa?.pinned && (
+        <div className="mb-2 flex items-start gap-2 rounded-lg border border-amber-200 bg-amber-50 px-3 py-2 text-sm">
+          <div className="min-w-0 flex-1">
+            <p className="text-[10px] font-semibold uppercase text-amber-700">
+              {t('qa.pinned')} · {qa.pinned.displayName ?? t('chat.guest', { id: qa.pinned.userId })}
+            </p>
+            <p className="break-words">{qa.pinned.message}</p>
+          </div>
+          {moderation && (
+            <button className={actionClass} onClick={moderation.onUnpin} disabled={moderation.disabled}>
+              {t('qa.unpin')}
+            </button>
+          )}
+        </div>
+      )}
+      <div className="relative">
+        <div ref={scrollRef} onScroll={onScroll} className="h-64 overflow-y-auto text-sm" role="log" aria-live="polite">
+          {messages.length === 0 && <p className="py-2 text-slate-500">{isLoadingHistory ? t('chat.loading') : t('chat.empty')}</p>}
+          <div className="relative" style={{ height: totalSize }}>
+            {rows.map(({ item, key, start }) => {
+              const isSeller = item.role === 'seller' || item.userId === sellerId;
+              const isOwn = item.userId === currentUserId;
+              const name = item.displayName ?? t('chat.guest', { id: item.userId });
+              const canModerate = !isSeller && !isOwn;
+              // Locally-keyed messages cannot be deleted, pinned or reported until the server's ID arrives.
+              const hasActions = !item.hiddenReason && !item.isLocal && (moderation || (onReport && canModerate));
+              return (
+                <div key={key} ref={measure(key)} className="group absolute inset-x-0 flex gap-2 py-1" style={{ top: start }}>
+                  <Avatar message={item} label={name} />
+                  <div className="min-w-0 flex-1">
+                    <p className="flex flex-wrap items-center gap-1 text-xs text-slate-500">
+                      <span className={`font-medium ${isOwn ? 'text-cyan-700' : 'text-slate-800'}`}>{name}</span>
+                      {isSeller && <span className="rounded bg-rose-100 px-1 text-[10px] font-semibold uppercase text-rose-700">{t('chat.sellerBadge')}</span>}
+                      <time dateTime={item.createdAt}>{new Date(item.createdAt).toLocaleTimeString(locale, { hour: '2-digit', minute: '2-digit' })}</time>
+                      {item.isQuestion &&
+                        (qa?.answeredIds.has(item.id) ? (
+                          <span className="rounded bg-emerald-100 px-1 text-[10px] text-emerald-800">{t('qa.answered')}</span>
+                        ) : (
+                          <span className="rounded bg-violet-100 px-1 text-[10px] text-violet-800">{t('qa.question')}</span>
+                        ))}
+                      {moderation && item.reports > 0 && <span className="rounded bg-amber-100 px-1 text-[10px] text-amber-800">{t('chat.reports', { count: item.reports })}</span>}
+                      {hasActions && (
+                        <span className="invisible ml-auto flex gap-0.5 group-focus-within:visible group-hover:visible">
+                          {moderation ? (
+                            <>
+                              <button className={actionClass} onClick={() => moderation.onPin(item)} disabled={moderation.disabled}>
+                                {t('qa.pin')}
+                              </button>
+                              {canModerate && (
+                                <>
+                                  <button className={actionClass} onClick={() => moderation.onDelete(item)} disabled={moderation.disabled}>
+                                    {t('chat.delete')}
+                                  </button>
+                                  <button className={actionClass} onClick={() => moderation.onTimeout(item.userId)} disabled={moderation.disabled}>
+                                    {t('chat.timeout')}
+                                  </button>
+                                  <button className={`${actionClass} text-rose-600`} onClick={() => moderation.onBan(item.userId)} disabled={moderation.disabled}>
+                                    {t('chat.ban')}
+                                  </button>
+                                </>
+                              )}
+                            </>
+                          ) : (
+                            onReport && (
+                              <button className={actionClass} onClick={() => report(item)} disabled={reportedIds.has(item.id)}>
+                                {reportedIds.has(item.id) ? t('chat.reported') : t('chat.report')}
+                              </button>
+                            )
+                          )}
+                        </span>
+                      )}
+                    </p>
+                    {item.hiddenReason && !moderation ? (
+                      <p className="italic text-slate-400">{t(`chat.hidden.${item.hiddenReason}`)}</p>
+                    ) : (
+                      <p className={`break-words ${item.hiddenReason ? 'text-slate-400 line-through' : ''}`}>{item.message}</p>
+                    )}
+                    {item.hiddenReason && moderation && <p className="text-[10px] text-slate-400">{t(`chat.hidden.${item.hiddenReason}`)}</p>}
+                  </div>
+                </div>
+              );
+            })}
+          </div>
+        </div>
+        {unseen > 0 && (
+          <button className="absolute bottom-2 left-1/2 -translate-x-1/2 rounded-full bg-cyan-600 px-3 py-1 text-xs text-white shadow" onClick={scrollToEnd}>
+            {t('chat.newMessages', { count: unseen })}
+          </button>
+        )}
+      </div>
+      {restriction?.kind === 'banned' ? (
+        <p className="mt-2 rounded-md bg-rose-50 px-3 py-2 text-sm text-rose-700">{t('chat.banned')}</p>
+      ) : (
+        <>
+          <div className="mt-2 flex gap-2">
+            <input
+              className="flex-1 rounded-md border px-3 py-2 text-sm disabled:bg-slate-50"
+              value={draft}
+              onChange={(e) => {
+                setDraft(e.target.value);
+                setDraftError(null);
+              }}
+              onKeyDown={(e) => {
+                if (e.key === 'Enter') {
+                  submit();
+                }
+              }}
+              placeholder={t('room.commentPlaceholder')}
+              disabled={restriction?.kind === 'timeout' && waitSeconds > 0}
+            />
+            <button className="rounded-md bg-slate-900 px-3 py-2 text-sm text-white disabled:opacity-60" onClick={submit} disabled={waitSeconds > 0}>
+              {waitSeconds > 0 ? t('chat.wait', { seconds: waitSeconds }) : t('common.send')}
+            </button>
+          </div>
+          {canAskQuestions && (
+            <label className="mt-1 flex items-center gap-1 text-xs text-slate-600">
+              <input type="checkbox" checked={isQuestion} onChange={(e) => setIsQuestion(e.target.checked)} />
+              {t('qa.askAsQuestion')}
+            </label>
+          )}
+          {draftError && <p className="mt-1 text-xs text-rose-600">{draftError}</p>}
+          {restriction?.kind === 'timeout' && waitSeconds > 0 && <p className="mt-1 text-xs text-amber-700">{t('chat.timedOut')}</p>}
+          {rules && rules.slowModeSeconds > 0 && <p className="mt-1 text-xs text-slate-500">{t('chat.slowModeHint', { seconds: rules.slowModeSeconds })}</p>}
+        </>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,63 @@
+import { useEffect, useState } from 'react';
+import { useTranslation } from '../../../shared/i18n/use-translation';
+import type { RoomSocketStatus } from '../session/room-socket';
+
+const RESTORED_VISIBLE_MS = 3000;
+
+type ConnectionBannerProps = {
+  status: RoomSocketStatus;
+  onRetry: () => void;
+  onSimulateDisconnect?: () => void;
+};
+
+export default function ConnectionBanner({ status, onRetry, onSimulateDisconnect }: ConnectionBannerProps) {
+  const { t } = useTranslation();
+  const [showRestored, setShowRestored] = useState(false);
+
+  useEffect(() => {
+    if (status.status !== 'connected' || !status.recovered) {
+      setShowRestored(false);
+      return;
+    }
+    setShowRestored(true);
+    const timer = setTimeout(() => setShowRestored(false), RESTORED_VISIBLE_MS);
+    return () => clearTimeout(timer);
+  }, [status]);
+
+  const devTools =
+    import.meta.env.DEV && onSimulateDisconnect && status.status === 'connected' ? (
+      <button className="rounded border border-current px-2 py-0.5 text-[11px]" onClick={onSimulateDisconnect}>
+        {t('connection.simulateDisconnect')}
+      </button>
+    ) : null;
+
+  if (status.status === 'reconnecting') {
+    return (
+      <div role="status" className="flex items-center justify-between gap-2 rounded-lg bg-amber-100 px-3 py-2 text-sm text-amber-800">
+        <span>{status.attempt > 0 ? t('connection.reconnectingAttempt', { attempt: status.attempt }) : t('connection.reconnecting')}</span>
+      </div>
+    );
+  }
+  if (status.status === 'offline') {
+    return (
+      <div role="alert" className="flex items-center justify-between gap-2 rounded-lg bg-rose-100 px-3 py-2 text-sm text-rose-800">
+        <span>{t('connection.offline')}</span>
+        <button className="rounded-md bg-rose-700 px-2 py-1 text-xs text-white" onClick={onRetry}>
+          {t('connection.retry')}
+        </button>
+      </div>
+    );
+  }
+  if (status.status === 'connecting') {
+    return <div className="rounded-lg bg-slate-200 px-3 py-2 text-sm text-slate-700">{t('connection.connecting')}</div>;
+  }
+  if (showRestored) {
+    return (
+      <div role="status" className="flex items-center justify-between gap-2 rounded-lg bg-emerald-100 px-3 py-2 text-sm text-emerald-800">
+        <span>{t('connection.restored')}</span>
+        {devTools}
+      </div>
+    );
+  }
+  return devTools ? <div className="flex justify-end text-slate-500">{devTools}</div> : null;
+}
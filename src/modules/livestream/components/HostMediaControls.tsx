@@ -0,0 +1,85 @@
+import { useEffect, useState } from 'react';
+import { useTranslation } from '../../../shared/i18n/use-translation';
+import type { LocalMedia, LocalMediaDevices, LocalMediaState } from '../session/local-media';
+
+type HostMediaControlsProps = {
+  media: LocalMedia;
+  state: LocalMediaState;
+};
+
+const toggleClass = (active: boolean) =>
+  `rounded-md border px-3 py-2 text-sm ${active ? 'border-rose-300 bg-rose-50 text-rose-700' : 'border-slate-300 bg-white text-slate-700'}`;
+
+export default function HostMediaControls({ media, state }: HostMediaControlsProps) {
+  const { t } = useTranslation();
+  const [devices, setDevices] = useState<LocalMediaDevices>({ cameras: [], microphones: [] });
+  const [deviceError, setDeviceError] = useState<string | null>(null);
+
+  useEffect(() => {
+    const refresh = () => {
+      media
+        .listDevices()
+        .then(setDevices)
+        .catch(() => setDeviceError(t('media.deviceError')));
+    };
+    refresh();
+    navigator.mediaDevices.addEventListener('devicechange', refresh);
+    return () => navigator.mediaDevices.removeEventListener('devicechange', refresh);
+  }, [media]);
+
+  const run = (action: () => Promise<void>) => {
+    setDeviceError(null);
+    action().catch(() => setDeviceError(t('media.deviceError')));
+  };
+
+  return (
+    <div className="space-y-2">
+      <div className="grid gap-2 sm:grid-cols-2">
+        <label className="text-xs text-slate-500">
+          {t('media.camera')}
+          <select
+            className="mt-1 w-full rounded-md border px-2 py-2 text-sm text-slate-900"
+            value={state.cameraId ?? ''}
+            disabled={state.source === 'screen'}
+            onChange={(event) => run(() => media.switchCamera(event.target.value))}
+          >
+            {devices.cameras.map((device) => (
+              <option key={device.deviceId} value={device.deviceId}>
+                {device.label}
+              </option>
+            ))}
+          </select>
+        </label>
+        <label className="text-xs text-slate-500">
+          {t('media.microphone')}
+          <select
+            className="mt-1 w-full rounded-md border px-2 py-2 text-sm text-slate-900"
+            value={state.microphoneId ?? ''}
+            onChange={(event) => run(() => media.switchMicrophone(event.target.value))}
+          >
+            {devices.microphones.map((device) => (
+              <option key={device.deviceId} value={device.deviceId}>
+                {device.label}
+              </option>
+            ))}
+          </select>
+        </label>
+      </div>
+      <div className="flex flex-wrap gap-2">
+        <button className={toggleClass(state.muted)} onClick={() => media.setMuted(!state.muted)}>
+          {state.muted ? t('media.unmute') : t('media.mute')}
+        </button>
+        <button className={toggleClass(state.cameraOff)} onClick={() => media.setCameraOff(!state.cameraOff)}>
+          {state.cameraOff ? t('media.cameraOn') : t('media.cameraOff')}
+        </button>
+        <button
+          className={toggleClass(state.source === 'screen')}
+          onClick={() => run(() => (state.source === 'screen' ? media.stopScreenShare() : media.startScreenShare()))}
+        >
+          {state.source === 'screen' ? t('media.stopScreenShare') : t('media.shareScreen')}
+        </button>
+      </div>
+      {deviceError && <p className="text-xs text-rose-600">{deviceError}</p>}
+    </div>
+  );
+}
@@ -0,0 +1,22 @@
+import { useTranslation } from '../../../shared/i18n/use-translation';
+import { useRelayOnly } from '../hooks/use-relay-only';
+import type { SelectedCandidatePair } from '../session/ice-servers';
+
+export function CandidateRoute({ pair }: { pair: SelectedCandidatePair | null }) {
+  const { t } = useTranslation();
+  const type = pair?.local ? t(`ice.candidate.${pair.local}`) : t('ice.pending');
+
+  return <span className={pair?.local === 'relay' ? 'text-amber-700' : undefined}>{t('ice.route', { type })}</span>;
+}
+
+export function RelayOnlyToggle() {
+  const { t } = useTranslation();
+  const { relayOnly, setRelayOnly } = useRelayOnly();
+
+  return (
+    <label className="inline-flex items-center gap-1 text-xs text-slate-500">
+      <input type="checkbox" checked={relayOnly} onChange={(event) => setRelayOnly(event.target.checked)} />
+      {t('ice.relayOnly')}
+    </label>
+  );
+}
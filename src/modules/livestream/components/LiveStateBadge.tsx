@@ -0,0 +1,18 @@
+import { useTranslation } from '../../../shared/i18n/use-translation';
+import type { LiveSessionState } from '../session/live-session';
+
+const stateClass: Record<LiveSessionState, string> = {
+  idle: 'bg-slate-100 text-slate-600',
+  joining: 'bg-amber-100 text-amber-700',
+  negotiating: 'bg-amber-100 text-amber-700',
+  live: 'bg-emerald-100 text-emerald-700',
+  reconnecting: 'bg-orange-100 text-orange-700',
+  ended: 'bg-slate-200 text-slate-700',
+  failed: 'bg-rose-100 text-rose-700',
+};
+
+export default function LiveStateBadge({ state }: { state: LiveSessionState }) {
+  const { t } = useTranslation();
+
+  return <span className={`inline-flex rounded-full px-2 py-0.5 text-xs font-medium ${stateClass[state]}`}>{t(`live.state.${state}`)}</span>;
+}
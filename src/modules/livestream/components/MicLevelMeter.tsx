@@ -0,0 +1,16 @@
+import { useTranslation } from '../../../shared/i18n/use-translation';
+import { useAudioLevel } from '../hooks/use-audio-level';
+
+export default function MicLevelMeter({ track }: { track: MediaStreamTrack | null }) {
+  const { t } = useTranslation();
+  const level = useAudioLevel(track);
+
+  return (
+    <div>
+      <p className="text-xs text-slate-500">{t('preflight.micLevel')}</p>
+      <div className="mt-1 h-2 overflow-hidden rounded-full bg-slate-200" role="meter" aria-valuemin={0} aria-valuemax={100} aria-valuenow={Math.round(level * 100)}>
+        <div className={`h-full transition-[width] duration-75 ${level > 0.8 ? 'bg-rose-500' : 'bg-emerald-500'}`} style={{ width: `${level * 100}%` }} />
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,97 @@
+import { useState } from 'react';
+import { useTranslation } from '../../../shared/i18n/use-translation';
+import type { ChatMessage } from '../chat/chat-model';
+import type { ModeratedChatMessage } from '../chat/chat-moderation';
+import { questionQueue, type ChatQa, type QuestionStatus } from '../chat/chat-qa';
+
+type QuestionQueueProps = {
+  messages: ModeratedChatMessage[];
+  qa: ChatQa;
+  onAnnounce: (message: string) => void;
+  onStatusChange: (commentId: string, status: QuestionStatus) => void;
+  onHighlight: (commentId: string | null) => void;
+  /** True while the room socket is down, since pins and question changes only apply once the server echoes them. */
+  disabled?: boolean;
+};
+
+/** Host: pins an announcement and works through viewer questions separately from the chat. */
+export default function QuestionQueue({ messages, qa, onAnnounce, onStatusChange, onHighlight, disabled = false }: QuestionQueueProps) {
+  const { t } = useTranslation();
+  const [announcement, setAnnouncement] = useState('');
+  const { open, answered } = questionQueue(messages, qa);
+
+  const announce = () => {
+    if (disabled || !announcement.trim()) {
+      return;
+    }
+    onAnnounce(announcement.trim());
+    setAnnouncement('');
+  };
+
+  const renderQuestion = (message: ModeratedChatMessage, status: QuestionStatus) => {
+    const isHighlighted = qa.highlightedId === message.id;
+    return (
+      <li key={message.id} className={`rounded-lg border p-2 ${isHighlighted ? 'border-violet-400 bg-violet-50' : ''}`}>
+        <p className="text-xs text-slate-500">{message.displayName ?? t('chat.guest', { id: message.userId })}</p>
+        <p className={`break-words ${status === 'answered' ? 'text-slate-500' : ''}`}>{message.message}</p>
+        <div className="mt-1 flex gap-2 text-xs">
+          <button className="text-cyan-700 disabled:opacity-40" onClick={() => onStatusChange(message.id, status === 'open' ? 'answered' : 'open')} disabled={disabled}>
+            {status === 'open' ? t('qa.markAnswered') : t('qa.reopen')}
+          </button>
+          {status === 'open' && (
+            <button className="text-violet-700 disabled:opacity-40" onClick={() => onHighlight(isHighlighted ? null : message.id)} disabled={disabled}>
+              {isHighlighted ? t('qa.hideFromScreen') : t('qa.showOnScreen')}
+            </button>
+          )}
+        </div>
+      </li>
+    );
+  };
+
+  return (
+    <div className="rounded-2xl border bg-white p-4 text-sm">
+      <p className="mb-2 font-semibold">{t('qa.title')}</p>
+      <div className="flex gap-2">
+        <input
+          className="flex-1 rounded-md border px-3 py-2"
+          value={announcement}
+          onChange={(e) => setAnnouncement(e.target.value)}
+          onKeyDown={(e) => {
+            if (e.key === 'Enter') {
+              announce();
+            }
+          }}
+          placeholder={t('qa.announcementPlaceholder')}
+        />
+        <button className="rounded-md bg-slate-900 px-3 py-2 text-white disabled:opacity-60" onClick={announce} disabled={disabled}>
+          {t('qa.pin')}
+        </button>
+      </div>
+      <p className="mb-1 mt-3 text-xs font-medium uppercase text-slate-500">{t('qa.openCount', { count: open.length })}</p>
+      {open.length === 0 && <p className="text-slate-500">{t('qa.empty')}</p>}
+      <ul className="max-h-64 space-y-2 overflow-y-auto">{open.map((message) => renderQuestion(message, 'open'))}</ul>
+      {answered.length > 0 && (
+        <details className="mt-3">
+          <summary className="cursor-pointer text-xs text-slate-500">{t('qa.answeredCount', { count: answered.length })}</summary>
+          <ul className="mt-2 max-h-48 space-y-2 overflow-y-auto">{answered.map((message) => renderQuestion(message, 'answered'))}</ul>
+        </details>
+      )}
+    </div>
+  );
+}
+
+/** The question the host is answering, shown over the player on both screens. */
+export function HighlightedQuestion({ message }: { message: ChatMessage | null }) {
+  const { t } = useTranslation();
+  if (!message) {
+    return null;
+  }
+  return (
+    <div className="pointer-events-none absolute inset-x-3 top-10 rounded-xl bg-white/95 p-3 text-sm shadow-lg">
+      <p className="text-[10px] font-semibold uppercase text-violet-700">
+        {t('qa.question')} · {message.displayName ?? t('chat.guest', { id: message.userId })}
+      </p>
+      <p className="break-words">{message.message}</p>
+    </div>
+  );
+}
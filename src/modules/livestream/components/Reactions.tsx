@@ -0,0 +1,66 @@
+import type { CSSProperties } from 'react';
+import { useTranslation } from '../../../shared/i18n/use-translation';
+import { REACTION_EMOJI, REACTION_KINDS, type ReactionBurst, type ReactionKind } from '../reactions/reactions';
+
+/** Floating emojis over the player; each one removes itself when its animation ends. */
+export function ReactionOverlay({ bursts, onDone }: { bursts: ReactionBurst[]; onDone: (id: number) => void }) {
+  return (
+    <div className="pointer-events-none absolute inset-0 overflow-hidden" aria-hidden>
+      {bursts.map((burst) => (
+        <span
+          key={burst.id}
+          className="absolute bottom-12 animate-reaction-float text-2xl opacity-0"
+          style={{ left: `${burst.left}%`, animationDelay: `${burst.delayMs}ms`, '--reaction-drift': `${burst.drift}px` } as CSSProperties}
+          onAnimationEnd={() => onDone(burst.id)}
+        >
+          {REACTION_EMOJI[burst.kind]}
+        </span>
+      ))}
+    </div>
+  );
+}
+
+export function ReactionBar({ onReact, disabled }: { onReact: (kind: ReactionKind) => void; disabled?: boolean }) {
+  const { t } = useTranslation();
+
+  return (
+    <div className="flex gap-2">
+      {REACTION_KINDS.map((kind) => (
+        <button
+          key={kind}
+          className="rounded-full border bg-white px-3 py-1 text-lg transition active:scale-90 disabled:opacity-50"
+          onClick={() => onReact(kind)}
+          disabled={disabled}
+          aria-label={t(`reactions.${kind}`)}
+          title={t(`reactions.${kind}`)}
+        >
+          {REACTION_EMOJI[kind]}
+        </button>
+      ))}
+    </div>
+  );
+}
+
+const SPARKLINE_WIDTH = 240;
+const SPARKLINE_HEIGHT = 40;
+
+/** Host: reactions per second over the last minute. */
+export function ReactionSparkline({ series }: { series: number[] }) {
+  const { t } = useTranslation();
+  const peak = Math.max(1, ...series);
+  const current = series[series.length - 1] ?? 0;
+  const step = SPARKLINE_WIDTH / Math.max(1, series.length - 1);
+  const points = series.map((value, index) => `${(index * step).toFixed(1)},${(SPARKLINE_HEIGHT - (value / peak) * SPARKLINE_HEIGHT).toFixed(1)}`).join(' ');
+
+  return (
+    <div>
+      <p className="flex justify-between text-xs text-slate-500">
+        <span>{t('reactions.rate', { value: current })}</span>
+        <span>{t('reactions.peak', { value: Math.max(0, ...series) })}</span>
+      </p>
+      <svg className="mt-1 h-10 w-full" viewBox={`0 0 ${SPARKLINE_WIDTH} ${SPARKLINE_HEIGHT}`} preserveAspectRatio="none" role="img" aria-label={t('reactions.sparklineLabel')}>
+        <polyline points={points} fill="none" stroke="currentColor" strokeWidth="1.5" className="text-rose-500" vectorEffect="non-scaling-stroke" />
+      </svg>
+    </div>
+  );
+}
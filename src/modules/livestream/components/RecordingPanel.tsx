@@ -0,0 +1,153 @@
+import { useMutation, useQueryClient } from '@tanstack/react-query';
+import { useEffect, useState } from 'react';
+import { useTranslation } from '../../../shared/i18n/use-translation';
+import { formatDuration } from '../../../shared/lib/time';
+import { recordingQueryKeys, useRecordings } from '../hooks/use-recordings';
+import type { LiveRecorder, RecorderState } from '../recording/live-recorder';
+import { recordingDb, type RecordingMeta } from '../recording/recording-db';
+import { downloadFile, getRecordingUploader, readRecordingFiles } from '../recording/recording-files';
+
+type RecordingPanelProps = {
+  roomId: string;
+  /** Null until the camera is open; saved recordings are listed either way. */
+  recorder: LiveRecorder | null;
+  canRecord: boolean;
+};
+
+export default function RecordingPanel({ roomId, recorder, canRecord }: RecordingPanelProps) {
+  const { t, locale } = useTranslation();
+  const queryClient = useQueryClient();
+  const recordingsQuery = useRecordings(roomId);
+  const [state, setState] = useState<RecorderState>(recorder?.state ?? 'inactive');
+  const [elapsedMs, setElapsedMs] = useState(0);
+  const [writeFailed, setWriteFailed] = useState(false);
+  const uploader = getRecordingUploader();
+
+  const refreshList = () => queryClient.invalidateQueries({ queryKey: recordingQueryKeys.byRoom(roomId) });
+
+  useEffect(() => {
+    if (!recorder) {
+      return;
+    }
+    setState(recorder.state);
+    const unsubscribers = [
+      recorder.on('state', (next) => {
+        setState(next);
+        void refreshList();
+      }),
+      recorder.on('error', () => setWriteFailed(true)),
+    ];
+    return () => unsubscribers.forEach((unsubscribe) => unsubscribe());
+  }, [recorder]);
+
+  useEffect(() => {
+    if (!recorder || state === 'inactive') {
+      return;
+    }
+    setElapsedMs(recorder.elapsedMs);
+    const timer = setInterval(() => setElapsedMs(recorder.elapsedMs), 500);
+    return () => clearInterval(timer);
+  }, [recorder, state]);
+
+  const startMutation = useMutation({
+    mutationFn: async () => recorder?.start(),
+    onMutate: () => setWriteFailed(false),
+    meta: { silent: true },
+  });
+  const stopMutation = useMutation({
+    mutationFn: async () => recorder?.stop(),
+    meta: { silent: true },
+  });
+  const downloadMutation = useMutation({
+    mutationFn: async (meta: RecordingMeta) => (await readRecordingFiles(meta)).forEach(downloadFile),
+    meta: { silent: true },
+  });
+  const uploadMutation = useMutation({
+    mutationFn: async (meta: RecordingMeta) => uploader?.({ meta, files: await readRecordingFiles(meta) }),
+    meta: { silent: true },
+  });
+  const removeMutation = useMutation({
+    mutationFn: (meta: RecordingMeta) => recordingDb.remove(meta.id),
+    onSuccess: refreshList,
+    meta: { silent: true },
+  });
+
+  const activeId = state === 'inactive' ? null : recorder?.meta?.id;
+  const recordings = (recordingsQuery.data ?? []).filter((meta) => meta.id !== activeId);
+
+  return (
+    <div className="rounded-2xl border bg-white p-4">
+      <div className="flex items-center justify-between gap-2">
+        <p className="font-semibold">{t('recording.title')}</p>
+        {state !== 'inactive' && (
+          <span className={`inline-flex items-center gap-1 text-sm ${state === 'recording' ? 'text-rose-600' : 'text-slate-500'}`}>
+            <span className={`h-2 w-2 rounded-full ${state === 'recording' ? 'animate-pulse bg-rose-600' : 'bg-slate-400'}`} />
+            {formatDuration(elapsedMs)}
+          </span>
+        )}
+      </div>
+      <div className="mt-2 flex flex-wrap gap-2 text-sm">
+        {state === 'inactive' ? (
+          <button
+            className="rounded-md bg-rose-600 px-3 py-2 text-white disabled:opacity-60"
+            onClick={() => startMutation.mutate()}
+            disabled={!recorder || !canRecord || startMutation.isPending}
+          >
+            {t('recording.start')}
+          </button>
+        ) : (
+          <>
+            {state === 'recording' ? (
+              <button className="rounded-md border px-3 py-2" onClick={() => recorder?.pause()}>
+                {t('recording.pause')}
+              </button>
+            ) : (
+              <button className="rounded-md border px-3 py-2" onClick={() => recorder?.resume()}>
+                {t('recording.resume')}
+              </button>
+            )}
+            <button className="rounded-md bg-slate-900 px-3 py-2 text-white" onClick={() => stopMutation.mutate()} disabled={stopMutation.isPending}>
+              {t('recording.stop')}
+            </button>
+          </>
+        )}
+      </div>
+      {startMutation.isError && <p className="mt-2 text-sm text-rose-600">{t('recording.startFailed')}</p>}
+      {stopMutation.isError && <p className="mt-2 text-sm text-rose-600">{t('recording.stopFailed')}</p>}
+      {writeFailed && <p className="mt-2 text-sm text-rose-600">{t('recording.writeFailed')}</p>}
+      {!canRecord && state === 'inactive' && <p className="mt-2 text-xs text-slate-500">{t('recording.liveOnly')}</p>}
+      {recordings.length > 0 && (
+        <ul className="mt-3 space-y-2 text-sm">
+          {recordings.map((meta) => (
+            <li key={meta.id} className="rounded-lg border p-2">
+              <p className="font-medium">
+                {new Date(meta.startedAt).toLocaleString(locale)} · {formatDuration(meta.durationMs)}
+              </p>
+              <p className="text-xs text-slate-500">
+                {t('recording.products', { count: meta.timeline.length })}
+                {meta.status !== 'stopped' && <span className="ml-2 text-amber-700">{t('recording.interrupted')}</span>}
+              </p>
+              <div className="mt-2 flex flex-wrap gap-2 text-xs">
+                <button className="rounded-md border px-2 py-1" onClick={() => downloadMutation.mutate(meta)} disabled={downloadMutation.isPending}>
+                  {t('recording.download')}
+                </button>
+                {uploader && (
+                  <button className="rounded-md border px-2 py-1" onClick={() => uploadMutation.mutate(meta)} disabled={uploadMutation.isPending}>
+                    {uploadMutation.isPending && uploadMutation.variables?.id === meta.id ? t('recording.uploading') : t('recording.upload')}
+                  </button>
+                )}
+                <button className="rounded-md border border-rose-300 px-2 py-1 text-rose-700" onClick={() => removeMutation.mutate(meta)} disabled={removeMutation.isPending}>
+                  {t('recording.delete')}
+                </button>
+              </div>
+              {uploadMutation.isSuccess && uploadMutation.variables?.id === meta.id && <p className="mt-1 text-xs text-emerald-700">{t('recording.uploaded')}</p>}
+              {uploadMutation.isError && uploadMutation.variables?.id === meta.id && <p className="mt-1 text-xs text-rose-600">{t('recording.uploadFailed')}</p>}
+              {downloadMutation.isError && downloadMutation.variables?.id === meta.id && <p className="mt-1 text-xs text-rose-600">{t('recording.downloadFailed')}</p>}
+              {removeMutation.isError && removeMutation.variables?.id === meta.id && <p className="mt-1 text-xs text-rose-600">{t('recording.deleteFailed')}</p>}
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,101 @@
+import { useTranslation } from '../../../shared/i18n/use-translation';
+import type { SelectedCandidatePair } from '../session/ice-servers';
+import { STATS_THRESHOLDS, statsQuality, statsWarnings, type PeerStats, type StatsQuality } from '../session/peer-stats';
+import { CandidateRoute } from './IceDiagnostics';
+
+const qualityClass: Record<StatsQuality, string> = {
+  good: 'bg-emerald-500',
+  fair: 'bg-amber-500',
+  poor: 'bg-rose-500',
+};
+
+const warnClass = (warn: boolean) => (warn ? 'font-medium text-rose-600' : '');
+
+const formatMs = (value: number | null) => (value === null ? '–' : `${Math.round(value)} ms`);
+const formatPercent = (value: number | null) => (value === null ? '–' : `${(value * 100).toFixed(1)}%`);
+const formatKbps = (value: number | null) => (value === null ? '–' : `${Math.round(value)} kbps`);
+const formatFps = (value: number | null) => (value === null ? '–' : `${Math.round(value)}`);
+
+type StreamHealthPanelProps = {
+  stats: Record<number, PeerStats>;
+  routes: Record<number, SelectedCandidatePair>;
+};
+
+/** Host diagnostics: one row per viewer from the session's `peer-stats`, plus the summed upload. */
+export function StreamHealthPanel({ stats, routes }: StreamHealthPanelProps) {
+  const { t } = useTranslation();
+  const rows = Object.entries(stats);
+  const uploadKbps = rows.reduce((total, [, item]) => total + (item.bitrateKbps ?? 0), 0);
+  const uploadHigh = uploadKbps > STATS_THRESHOLDS.uploadKbps;
+
+  return (
+    <div className="text-xs text-slate-500">
+      <div className="flex flex-wrap items-center justify-between gap-2">
+        <p className="font-medium text-slate-700">{t('health.title')}</p>
+        <p className={warnClass(uploadHigh)}>{t('health.totalUpload', { value: formatKbps(uploadKbps) })}</p>
+      </div>
+      {uploadHigh && <p className="mt-1 rounded-md bg-rose-50 px-2 py-1 text-rose-700">{t('health.uploadWarning')}</p>}
+      {rows.length === 0 ? (
+        <p className="mt-1">{t('health.noViewers')}</p>
+      ) : (
+        <div className="mt-1 overflow-x-auto">
+          <table className="w-full text-left">
+            <thead>
+              <tr className="text-slate-400">
+                <th className="py-1 pr-2 font-normal">{t('health.viewer')}</th>
+                <th className="py-1 pr-2 font-normal">{t('health.ice')}</th>
+                <th className="py-1 pr-2 font-normal">{t('health.rtt')}</th>
+                <th className="py-1 pr-2 font-normal">{t('health.loss')}</th>
+                <th className="py-1 pr-2 font-normal">{t('health.bitrate')}</th>
+                <th className="py-1 pr-2 font-normal">{t('health.fps')}</th>
+              </tr>
+            </thead>
+            <tbody>
+              {rows.map(([peerId, item]) => {
+                const warnings = statsWarnings(item);
+                return (
+                  <tr key={peerId} className="border-t">
+                    <td className="py-1 pr-2">
+                      <span className="flex items-center gap-1">
+                        <span className={`h-2 w-2 rounded-full ${qualityClass[statsQuality(item)]}`} />
+                        {t('host.viewerRoute', { peerId })}
+                      </span>
+                      <CandidateRoute pair={routes[Number(peerId)] ?? null} />
+                    </td>
+                    <td className={`py-1 pr-2 ${warnClass(warnings.includes('ice'))}`}>{item.iceState}</td>
+                    <td className={`py-1 pr-2 ${warnClass(warnings.includes('rtt'))}`}>{formatMs(item.rttMs)}</td>
+                    <td className={`py-1 pr-2 ${warnClass(warnings.includes('loss'))}`}>{formatPercent(item.packetLoss)}</td>
+                    <td className="py-1 pr-2">{formatKbps(item.bitrateKbps)}</td>
+                    <td className={`py-1 pr-2 ${warnClass(warnings.includes('fps'))}`}>{formatFps(item.framesPerSecond)}</td>
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  );
+}
+
+/** Viewer's compact indicator for their own link to the seller; details sit in the tooltip. */
+export function ConnectionQuality({ stats }: { stats: PeerStats | null }) {
+  const { t } = useTranslation();
+  if (!stats) {
+    return null;
+  }
+  const quality = statsQuality(stats);
+  const details = t('health.details', {
+    rtt: formatMs(stats.rttMs),
+    loss: formatPercent(stats.packetLoss),
+    bitrate: formatKbps(stats.bitrateKbps),
+    fps: formatFps(stats.framesPerSecond),
+  });
+
+  return (
+    <span className="inline-flex items-center gap-1" title={details}>
+      <span className={`h-2 w-2 rounded-full ${qualityClass[quality]}`} />
+      {t(`health.quality.${quality}`)}
+    </span>
+  );
+}
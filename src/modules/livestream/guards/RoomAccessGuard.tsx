@@ -0,0 +1,108 @@
+import { isAxiosError } from 'axios';
+import { Link, Navigate, Outlet, useLocation } from 'react-router-dom';
+import RouteFallback from '../../../app/RouteFallback';
+import { paths, useRoomIdParam } from '../../../app/routes';
+import { useTranslation } from '../../../shared/i18n/use-translation';
+import StatusScreen, { statusPrimaryActionClass, statusSecondaryActionClass } from '../../../shared/components/StatusScreen';
+import { useSession } from '../../../shared/session/use-session';
+import { useRoom } from '../hooks/use-room';
+
+type RoomAccessGuardProps = {
+  role: 'seller' | 'viewer';
+};
+
+/**
+ * Resolves the room before its page mounts, so camera access and `/join` only happen
+ * for rooms that are still running and, for the host console, owned by the signed-in seller.
+ */
+export default function RoomAccessGuard({ role }: RoomAccessGuardProps) {
+  const roomId = useRoomIdParam();
+  const { t } = useTranslation();
+  const location = useLocation();
+  const { profile, profileQuery } = useSession();
+  const roomQuery = useRoom(roomId);
+
+  if (roomQuery.isPending || (role === 'seller' && profileQuery.isPending)) {
+    return <RouteFallback />;
+  }
+  if (roomQuery.isError) {
+    const notFound = isAxiosError(roomQuery.error) && roomQuery.error.response?.status === 404;
+    return (
+      <StatusScreen
+        eyebrow={notFound ? '404' : t('common.error')}
+        title={notFound ? t('room.guard.notFoundTitle') : t('room.guard.loadFailedTitle')}
+        description={t('room.label', { roomId })}
+        actions={
+          <Link className={statusPrimaryActionClass} to={paths.home()}>
+            {t('common.home')}
+          </Link>
+        }
+      />
+    );
+  }
+
+  const room = roomQuery.data;
+  // Ownership can only be judged with a profile; a failed lookup is not the same as someone else's room.
+  if (role === 'seller' && !profile) {
+    if (isAxiosError(profileQuery.error) && profileQuery.error.response?.status === 401) {
+      return <Navigate to={paths.login(`${location.pathname}${location.search}`)} replace />;
+    }
+    return (
+      <StatusScreen
+        eyebrow={t('common.error')}
+        title={t('room.guard.profileFailedTitle')}
+        description={t('room.guard.profileFailedDescription')}
+        actions={
+          <>
+            <button className={statusPrimaryActionClass} onClick={() => void profileQuery.refetch()} disabled={profileQuery.isFetching}>
+              {t('common.retry')}
+            </button>
+            <Link className={statusSecondaryActionClass} to={paths.dashboard()}>
+              {t('common.dashboard')}
+            </Link>
+          </>
+        }
+      />
+    );
+  }
+  if (role === 'seller' && profile?.sub !== room.sellerId) {
+    return (
+      <StatusScreen
+        eyebrow={t('room.guard.forbiddenEyebrow')}
+        title={t('room.guard.forbiddenTitle')}
+        description={t('room.guard.forbiddenDescription')}
+        actions={
+          <>
+            <Link className={statusPrimaryActionClass} to={paths.joinRoom(room.id)}>
+              {t('room.watchLive')}
+            </Link>
+            <Link className={statusSecondaryActionClass} to={paths.dashboard()}>
+              {t('common.dashboard')}
+            </Link>
+          </>
+        }
+      />
+    );
+  }
+  if (room.status === 'ended') {
+    return (
+      <StatusScreen
+        eyebrow={t('room.guard.endedEyebrow')}
+        title={t('room.guard.endedTitle')}
+        description={room.title}
+        actions={
+          <>
+            <Link className={statusPrimaryActionClass} to={paths.replay(room.id)}>
+              {t('replay.watch')}
+            </Link>
+            <Link className={statusSecondaryActionClass} to={role === 'seller' ? paths.dashboard() : paths.home()}>
+              {role === 'seller' ? t('common.dashboard') : t('common.home')}
+            </Link>
+          </>
+        }
+      />
+    );
+  }
+
+  return <Outlet />;
+}
@@ -0,0 +1,36 @@
+import { useEffect, useState } from 'react';
+
+/** RMS level (0–1) of an audio track, sampled every animation frame through a Web Audio analyser. */
+export function useAudioLevel(track: MediaStreamTrack | null) {
+  const [level, setLevel] = useState(0);
+
+  useEffect(() => {
+    if (!track) {
+      setLevel(0);
+      return;
+    }
+    const context = new AudioContext();
+    const analyser = context.createAnalyser();
+    analyser.fftSize = 512;
+    const source = context.createMediaStreamSource(new MediaStream([track]));
+    source.connect(analyser);
+    const samples = new Float32Array(analyser.fftSize);
+    let frame = 0;
+
+    const sample = () => {
+      analyser.getFloatTimeDomainData(samples);
+      const rms = Math.sqrt(samples.reduce((sum, value) => sum + value * value, 0) / samples.length);
+      setLevel(track.enabled ? Math.min(1, rms * 4) : 0);
+      frame = requestAnimationFrame(sample);
+    };
+    sample();
+
+    return () => {
+      cancelAnimationFrame(frame);
+      source.disconnect();
+      void context.close();
+    };
+  }, [track]);
+
+  return level;
+}
@@ -0,0 +1,63 @@
+import { useCallback, useEffect, useMemo, useRef, useState } from 'react';
+import {
+  createReactionBatcher,
+  createReactionRate,
+  MAX_BURSTS,
+  nextAnimationFrame,
+  spawnBursts,
+  totalReactions,
+  type ReactionBurst,
+  type ReactionCounts,
+  type ReactionsPayload,
+} from '../reactions/reactions';
+
+type UseReactionsOptions = {
+  /** Host: keep a per-second rate series for the sparkline. */
+  trackRate?: boolean;
+};
+
+/**
+ * Reaction bursts for the video overlay. The page binds `socketListeners` to its socket and calls
+ * `show` for the viewer's own taps, which the server does not echo back. Incoming batches are summed
+ * and drawn once per animation frame, so a busy room costs one state update a frame.
+ */
+export function useReactions(roomId: string, { trackRate = false }: UseReactionsOptions = {}) {
+  const [bursts, setBursts] = useState<ReactionBurst[]>([]);
+  const [rateSeries, setRateSeries] = useState<number[]>([]);
+  const rateRef = useRef(createReactionRate());
+
+  const show = useCallback((counts: ReactionCounts) => {
+    rateRef.current.add(totalReactions(counts));
+    setBursts((prev) => [...prev, ...spawnBursts(counts)].slice(-MAX_BURSTS));
+  }, []);
+
+  const [incoming] = useState(() => createReactionBatcher(show, nextAnimationFrame));
+  useEffect(() => () => incoming.stop(), [incoming]);
+
+  const dismiss = useCallback((id: number) => {
+    setBursts((prev) => prev.filter((burst) => burst.id !== id));
+  }, []);
+
+  const socketListeners = useMemo(
+    () => ({
+      reactions: (payload: ReactionsPayload) => {
+        if (payload.roomId === roomId) {
+          incoming.addCounts(payload.counts);
+        }
+      },
+    }),
+    [roomId, incoming],
+  );
+
+  useEffect(() => {
+    if (!trackRate) {
+      return;
+    }
+    const rate = rateRef.current;
+    setRateSeries(rate.series());
+    const timer = setInterval(() => setRateSeries(rate.series()), 1000);
+    return () => clearInterval(timer);
+  }, [trackRate]);
+
+  return { bursts, rateSeries, show, dismiss, socketListeners };
+}
@@ -0,0 +1,15 @@
+import { useQuery } from '@tanstack/react-query';
+import { recordingDb } from '../recording/recording-db';
+
+export const recordingQueryKeys = {
+  byRoom: (roomId: string) => ['live-recordings', roomId] as const,
+};
+
+/** Recordings of this room kept in the browser's IndexedDB, newest first. */
+export function useRecordings(roomId: string) {
+  return useQuery({
+    queryKey: recordingQueryKeys.byRoom(roomId),
+    queryFn: () => recordingDb.listByRoom(roomId),
+    meta: { silent: true },
+  });
+}
@@ -0,0 +1,26 @@
+import { useSearchParams } from 'react-router-dom';
+
+const RELAY_ONLY_PARAM = 'ice';
+
+/** `?ice=relay` on a room page forces TURN-only ICE, for support to check a viewer's TURN path. */
+export function useRelayOnly() {
+  const [searchParams, setSearchParams] = useSearchParams();
+  const relayOnly = searchParams.get(RELAY_ONLY_PARAM) === 'relay';
+
+  const setRelayOnly = (enabled: boolean) => {
+    setSearchParams(
+      (previous) => {
+        const next = new URLSearchParams(previous);
+        if (enabled) {
+          next.set(RELAY_ONLY_PARAM, 'relay');
+        } else {
+          next.delete(RELAY_ONLY_PARAM);
+        }
+        return next;
+      },
+      { replace: true },
+    );
+  };
+
+  return { relayOnly, setRelayOnly };
+}
@@ -0,0 +1,90 @@
+import { useQuery } from '@tanstack/react-query';
+import { useCallback, useEffect, useMemo, useRef, useState } from 'react';
+import { apiClient } from '../../../api-service/client';
+import { mergeChatMessages, toChatMessage, type ChatMessage, type CommentPayload } from '../chat/chat-model';
+import {
+  applyModeration,
+  hideComment,
+  initialChatModeration,
+  moderateUser,
+  reportComment,
+  updateChatSettings,
+  type ChatModeration,
+  type ChatSettingsPayload,
+  type CommentHiddenPayload,
+  type CommentReportPayload,
+  type UserModeratedPayload,
+} from '../chat/chat-moderation';
+import {
+  highlightQuestion,
+  initialChatQa,
+  pinMessage,
+  updateQuestion,
+  type ChatQa,
+  type PinnedMessagePayload,
+  type QuestionHighlightedPayload,
+  type QuestionUpdatedPayload,
+} from '../chat/chat-qa';
+import { roomQueryKeys } from './use-room';
+
+/**
+ * Room chat state: recent history from `GET /livestream/rooms/:roomId/comments` merged with live
+ * `comment_created` events, plus the moderation events that hide messages or restrict users and the
+ * seller's pin and Q&A state. The page binds `socketListeners` to its socket; `lastMessageAt` feeds
+ * `commentsSince` on re-join so the server only replays what was missed.
+ */
+export function useRoomChat(roomId: string) {
+  const historyQuery = useQuery({
+    queryKey: roomQueryKeys.comments(roomId),
+    queryFn: () => apiClient.get('/livestream/rooms/{roomId}/comments', { path: { roomId } }),
+    retry: false,
+    staleTime: Infinity,
+    meta: { silent: true },
+  });
+  const [live, setLive] = useState<ChatMessage[]>([]);
+  const [moderation, setModeration] = useState<ChatModeration>(initialChatModeration);
+  const [qa, setQa] = useState<ChatQa>(initialChatQa);
+  const lastMessageAtRef = useRef<number | null>(null);
+
+  const merged = useMemo(() => mergeChatMessages((historyQuery.data ?? []).map(toChatMessage), live), [historyQuery.data, live]);
+  const messages = useMemo(() => applyModeration(merged, moderation), [merged, moderation]);
+
+  // Only server copies count: a pending local message is stamped by the client clock.
+  useEffect(() => {
+    const last = [...merged].reverse().find((message) => !message.isLocal);
+    lastMessageAtRef.current = last ? Date.parse(last.createdAt) : null;
+  }, [merged]);
+
+  const receive = useCallback(
+    (payload: CommentPayload) => {
+      if (payload.roomId === roomId) {
+        setLive((prev) => mergeChatMessages(prev, [toChatMessage(payload)]));
+      }
+    },
+    [roomId],
+  );
+
+  const socketListeners = useMemo(() => {
+    const forRoom =
+      <S, T extends { roomId: string }>(update: (apply: (state: S) => S) => void, apply: (state: S, payload: T) => S) =>
+      (payload: T) => {
+        if (payload.roomId === roomId) {
+          update((prev) => apply(prev, payload));
+        }
+      };
+    return {
+      comment_created: receive,
+      comment_hidden: forRoom<ChatModeration, CommentHiddenPayload>(setModeration, hideComment),
+      user_moderated: forRoom<ChatModeration, UserModeratedPayload>(setModeration, moderateUser),
+      chat_settings_updated: forRoom<ChatModeration, ChatSettingsPayload>(setModeration, updateChatSettings),
+      comment_reported: forRoom<ChatModeration, CommentReportPayload>(setModeration, reportComment),
+      message_pinned: forRoom<ChatQa, PinnedMessagePayload>(setQa, pinMessage),
+      question_updated: forRoom<ChatQa, QuestionUpdatedPayload>(setQa, updateQuestion),
+      question_highlighted: forRoom<ChatQa, QuestionHighlightedPayload>(setQa, highlightQuestion),
+    };
+  }, [receive, roomId]);
+
+  const lastMessageAt = useCallback(() => lastMessageAtRef.current, []);
+
+  return { messages, moderation, qa, socketListeners, lastMessageAt, isLoadingHistory: historyQuery.isPending };
+}
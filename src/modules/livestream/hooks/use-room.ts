@@ -0,0 +1,46 @@
+import { useQuery } from '@tanstack/react-query';
+import { apiClient } from '../../../api-service/client';
+import type { Room } from '../../../api-service/models';
+
+export const roomQueryKeys = {
+  detail: (roomId: string) => ['livestream-room', roomId] as const,
+  replay: (roomId: string) => ['livestream-room', roomId, 'replay'] as const,
+  comments: (roomId: string) => ['livestream-room', roomId, 'comments'] as const,
+};
+
+type UseRoomOptions = {
+  /** Poll the room while it can still change status; `false` (the default) fetches once. */
+  pollStatus?: boolean;
+};
+
+// A scheduled room is polled more often so viewers waiting for the show get in quickly.
+const SCHEDULED_POLL_MS = 5000;
+const ACTIVE_POLL_MS = 15_000;
+
+const pollInterval = (room: Room | undefined) => {
+  if (room?.status === 'ended') {
+    return false;
+  }
+  return room?.status === 'scheduled' ? SCHEDULED_POLL_MS : ACTIVE_POLL_MS;
+};
+
+export function useRoom(roomId: string, { pollStatus = false }: UseRoomOptions = {}) {
+  return useQuery({
+    queryKey: roomQueryKeys.detail(roomId),
+    queryFn: () => apiClient.get('/livestream/rooms/{roomId}', { path: { roomId } }),
+    refetchInterval: pollStatus ? (query) => pollInterval(query.state.data) : false,
+    retry: false,
+    meta: { silent: true },
+  });
+}
+
+export function useRoomReplay(roomId: string) {
+  return useQuery({
+    queryKey: roomQueryKeys.replay(roomId),
+    queryFn: () => apiClient.get('/livestream/rooms/{roomId}/replay', { path: { roomId } }),
+    retry: false,
+    // The replay of an ended room does not change.
+    staleTime: Infinity,
+    meta: { silent: true },
+  });
+}
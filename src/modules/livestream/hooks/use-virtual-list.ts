@@ -0,0 +1,126 @@
+import { useCallback, useEffect, useLayoutEffect, useMemo, useReducer, useRef, useState } from 'react';
+
+type UseVirtualListOptions<T> = {
+  items: T[];
+  getKey: (item: T) => string;
+  /** Height used for rows that have not been measured yet. */
+  estimateSize: number;
+  /** Extra pixels rendered above and below the viewport. */
+  overscan?: number;
+};
+
+export type VirtualRow<T> = {
+  item: T;
+  key: string;
+  start: number;
+};
+
+// Within this many pixels of the bottom counts as "following" new rows.
+const END_THRESHOLD_PX = 32;
+
+/**
+ * Variable-height list virtualisation for a bottom-anchored feed. While the reader is at the end it
+ * follows new rows; once they scroll up, the first visible row keeps its position when rows are
+ * inserted above it or re-measured, so the text under the reader's eyes never jumps.
+ */
+export function useVirtualList<T>({ items, getKey, estimateSize, overscan = 240 }: UseVirtualListOptions<T>) {
+  const scrollRef = useRef<HTMLDivElement | null>(null);
+  const sizesRef = useRef(new Map<string, number>());
+  const anchorRef = useRef<{ key: string; offset: number } | null>(null);
+  const atEndRef = useRef(true);
+  const [atEnd, setAtEnd] = useState(true);
+  const [viewport, setViewport] = useState({ top: 0, height: 0 });
+  const [measured, remeasure] = useReducer((version: number) => version + 1, 0);
+
+  const layout = useMemo(() => {
+    let total = 0;
+    const rows = items.map((item) => {
+      const key = getKey(item);
+      const size = sizesRef.current.get(key) ?? estimateSize;
+      const row = { item, key, start: total, size };
+      total += size;
+      return row;
+    });
+    return { rows, total };
+  }, [items, measured, estimateSize]);
+  const layoutRef = useRef(layout);
+  layoutRef.current = layout;
+
+  // Sizes are keyed by item, so rows trimmed from or deleted out of the list take their entry with them.
+  useEffect(() => {
+    const keys = new Set(items.map(getKey));
+    sizesRef.current.forEach((_size, key) => {
+      if (!keys.has(key)) {
+        sizesRef.current.delete(key);
+      }
+    });
+  }, [items]);
+
+  const readViewport = useCallback(() => {
+    const element = scrollRef.current;
+    if (!element) {
+      return;
+    }
+    const top = element.scrollTop;
+    const end = element.scrollHeight - top - element.clientHeight < END_THRESHOLD_PX;
+    atEndRef.current = end;
+    setAtEnd(end);
+    setViewport({ top, height: element.clientHeight });
+    const first = layoutRef.current.rows.find((row) => row.start + row.size > top);
+    anchorRef.current = first ? { key: first.key, offset: top - first.start } : null;
+  }, []);
+
+  useEffect(() => {
+    const element = scrollRef.current;
+    if (!element) {
+      return;
+    }
+    const observer = new ResizeObserver(readViewport);
+    observer.observe(element);
+    return () => observer.disconnect();
+  }, [readViewport]);
+
+  useLayoutEffect(() => {
+    const element = scrollRef.current;
+    if (!element) {
+      return;
+    }
+    if (atEndRef.current) {
+      element.scrollTop = element.scrollHeight;
+      return;
+    }
+    const anchor = anchorRef.current;
+    const row = anchor && layout.rows.find((item) => item.key === anchor.key);
+    if (anchor && row && Math.abs(element.scrollTop - (row.start + anchor.offset)) > 1) {
+      element.scrollTop = row.start + anchor.offset;
+    }
+  }, [layout]);
+
+  const measure = useCallback((key: string) => {
+    return (element: HTMLElement | null) => {
+      if (!element) {
+        return;
+      }
+      const size = element.offsetHeight;
+      if (size && sizesRef.current.get(key) !== size) {
+        sizesRef.current.set(key, size);
+        remeasure();
+      }
+    };
+  }, []);
+
+  const scrollToEnd = useCallback(() => {
+    const element = scrollRef.current;
+    if (element) {
+      atEndRef.current = true;
+      setAtEnd(true);
+      element.scrollTop = element.scrollHeight;
+    }
+  }, []);
+
+  const rows: VirtualRow<T>[] = layout.rows
+    .filter((row) => row.start + row.size >= viewport.top - overscan && row.start <= viewport.top + viewport.height + overscan)
+    .map(({ item, key, start }) => ({ item, key, start }));
+
+  return { scrollRef, onScroll: readViewport, totalSize: layout.total, rows, measure, atEnd, scrollToEnd };
+}
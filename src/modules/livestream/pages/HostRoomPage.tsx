@@ -0,0 +1,448 @@
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { useEffect, useRef, useState } from 'react';
+import type { Socket } from 'socket.io-client';
+import { apiClient } from '../../../api-service/client';
+import { useRoomIdParam } from '../../../app/routes';
+import ConfirmDialog from '../../../shared/components/ConfirmDialog';
+import type { MessageKey } from '../../../shared/i18n/i18n';
+import LocaleSwitcher from '../../../shared/i18n/LocaleSwitcher';
+import { useTranslation } from '../../../shared/i18n/use-translation';
+import { getAppConfig } from '../../../shared/lib/app-config';
+import { useSession } from '../../../shared/session/use-session';
+import { displayNameFromEmail, type SendCommentPayload } from '../chat/chat-model';
+import { TIMEOUT_MS, type ChatSettings, type ChatSettingsPayload, type CommentHiddenPayload, type UserModeratedPayload, type UserModerationAction } from '../chat/chat-moderation';
+import { toPinnedMessage, type PinnedMessage, type PinnedMessagePayload, type QuestionHighlightedPayload, type QuestionStatus, type QuestionUpdatedPayload } from '../chat/chat-qa';
+import ChatModerationPanel from '../components/ChatModerationPanel';
+import ChatPanel from '../components/ChatPanel';
+import ConnectionBanner from '../components/ConnectionBanner';
+import HostMediaControls from '../components/HostMediaControls';
+import { RelayOnlyToggle } from '../components/IceDiagnostics';
+import LiveStateBadge from '../components/LiveStateBadge';
+import MicLevelMeter from '../components/MicLevelMeter';
+import QuestionQueue, { HighlightedQuestion } from '../components/QuestionQueue';
+import { ReactionOverlay, ReactionSparkline } from '../components/Reactions';
+import RecordingPanel from '../components/RecordingPanel';
+import { StreamHealthPanel } from '../components/StreamHealth';
+import { useRelayOnly } from '../hooks/use-relay-only';
+import { roomQueryKeys, useRoom } from '../hooks/use-room';
+import { useReactions } from '../hooks/use-reactions';
+import { useRoomChat } from '../hooks/use-room-chat';
+import { createLiveRecorder, type LiveRecorder } from '../recording/live-recorder';
+import { createRoomIceServers, type RoomIceServers, type SelectedCandidatePair } from '../session/ice-servers';
+import { createLocalMedia, type LocalMedia, type LocalMediaState } from '../session/local-media';
+import { createMediaTransport, type MediaTransport, type MediaTransportState } from '../session/media-transport';
+import type { PeerStats } from '../session/peer-stats';
+import { bindSocketListeners, createRoomSocket, type RoomSocket, type RoomSocketStatus } from '../session/room-socket';
+import type { MediaState } from '../types';
+
+const toMediaState = ({ muted, cameraOff, source }: LocalMediaState): MediaState => ({ muted, cameraOff, source });
+
+export default function HostRoomPage() {
+  const roomId = useRoomIdParam();
+  const { t, money } = useTranslation();
+  const socketRef = useRef<Socket | null>(null);
+  const roomSocketRef = useRef<RoomSocket | null>(null);
+  const transportRef = useRef<MediaTransport | null>(null);
+  const iceServersRef = useRef<RoomIceServers | null>(null);
+  const localVideoRef = useRef<HTMLVideoElement | null>(null);
+  const [localMedia, setLocalMedia] = useState<LocalMedia | null>(null);
+  const [localMediaState, setLocalMediaState] = useState<LocalMediaState | null>(null);
+  // Stored as a key so the message follows a locale switch.
+  const [mediaError, setMediaError] = useState<MessageKey | null>(null);
+  const [recorder, setRecorder] = useState<LiveRecorder | null>(null);
+  const queryClient = useQueryClient();
+  const roomQuery = useRoom(roomId);
+  const [isLive, setIsLive] = useState(() => roomQuery.data?.status === 'active');
+  const [isConfirmingEnd, setIsConfirmingEnd] = useState(false);
+  // Bumped by "Retry" to rebuild the room connection after `/join` or the ICE server fetch failed.
+  const [connectAttempt, setConnectAttempt] = useState(0);
+  const [connectFailed, setConnectFailed] = useState(false);
+  const [viewerCount, setViewerCount] = useState(0);
+  const [sessionState, setSessionState] = useState<MediaTransportState>('idle');
+  const [socketStatus, setSocketStatus] = useState<RoomSocketStatus | null>(null);
+  const [viewerRoutes, setViewerRoutes] = useState<Record<number, SelectedCandidatePair>>({});
+  const [viewerStats, setViewerStats] = useState<Record<number, PeerStats>>({});
+  const [directPeers, setDirectPeers] = useState(0);
+  const { relayOnly } = useRelayOnly();
+  const [selectedProductId, setSelectedProductId] = useState<number | null>(null);
+
+  const { profile } = useSession();
+  const productsQuery = useQuery({
+    queryKey: ['host-products'],
+    queryFn: () => apiClient.get('/products'),
+    enabled: Boolean(profile),
+  });
+  const sellerId = profile?.sub;
+  const chat = useRoomChat(roomId);
+  const reactions = useReactions(roomId, { trackRate: isLive });
+  const socketListenersRef = useRef({ ...chat.socketListeners, ...reactions.socketListeners });
+  useEffect(() => {
+    socketListenersRef.current = { ...chat.socketListeners, ...reactions.socketListeners };
+  });
+
+  // Camera and microphone open on arrival so the seller can check them before going live.
+  useEffect(() => {
+    let active = true;
+    const media = createLocalMedia();
+    media.on('change', setLocalMediaState);
+    media.on('error', () => setMediaError('media.deviceError'));
+    media
+      .start()
+      .then(() => {
+        if (!active) {
+          return;
+        }
+        setLocalMedia(media);
+        setLocalMediaState(media.state);
+      })
+      .catch(() => {
+        if (active) {
+          setMediaError('media.deviceError');
+        }
+      });
+    return () => {
+      active = false;
+      media.stop();
+      setLocalMedia(null);
+    };
+  }, []);
+
+  // The recorder outlives go-live/end-live toggles but not the camera; unmounting finalises what was recorded.
+  useEffect(() => {
+    if (!localMedia) {
+      return;
+    }
+    const nextRecorder = createLiveRecorder({ roomId, stream: localMedia.stream });
+    // MediaRecorder and the IndexedDB writes can throw; the error stays next to the preview.
+    const onRecorderError = () => setMediaError('recording.failed');
+    const unsubscribe = localMedia.on('track-replaced', () => void nextRecorder.restartSegment().catch(onRecorderError));
+    setRecorder(nextRecorder);
+    return () => {
+      unsubscribe();
+      void nextRecorder.stop().catch(onRecorderError);
+      setRecorder(null);
+    };
+  }, [localMedia, roomId]);
+
+  useEffect(() => {
+    if (localVideoRef.current && localMedia) {
+      localVideoRef.current.srcObject = localMedia.stream;
+    }
+  }, [localMedia, isLive]);
+
+  useEffect(() => {
+    if (!sellerId || !localMedia || !isLive) {
+      return;
+    }
+    let active = true;
+    const roomSocket = createRoomSocket();
+    const { socket } = roomSocket;
+    roomSocketRef.current = roomSocket;
+    socketRef.current = socket;
+    setSocketStatus(roomSocket.status);
+    roomSocket.on('status', setSocketStatus);
+    socket.on('viewer_count_updated', (payload: { roomId: string; viewerCount: number }) => {
+      if (payload.roomId === roomId) {
+        setViewerCount(payload.viewerCount);
+      }
+    });
+    bindSocketListeners(socket, socketListenersRef);
+
+    const iceServers = createRoomIceServers(roomId, { relayOnly });
+    iceServersRef.current = iceServers;
+    const transport = createMediaTransport({
+      kind: 'mesh',
+      role: 'seller',
+      roomId,
+      userId: sellerId,
+      socket,
+      rtcConfiguration: () => iceServers.configuration,
+      joinPayload: () => {
+        const commentsSince = chat.lastMessageAt();
+        return commentsSince ? { commentsSince } : {};
+      },
+      maxPeers: getAppConfig().maxDirectPeers,
+    });
+    transportRef.current = transport;
+    iceServers.on('change', () => transport.updateConfiguration());
+    transport.setBlockedPeers(chat.moderation.bannedUserIds);
+    transport.on('state', ({ state }) => setSessionState(state));
+    transport.setMediaState(toMediaState(localMedia.state));
+    const unsubscribeMedia = [
+      localMedia.on('change', (next) => transport.setMediaState(toMediaState(next))),
+      localMedia.on('track-replaced', ({ track }) => void transport.replaceTrack(track)),
+    ];
+    transport.on('candidate-pair', ({ peerId, pair }) => setViewerRoutes((prev) => ({ ...prev, [peerId]: pair })));
+    transport.on('peer-stats', ({ peerId, stats }) => setViewerStats((prev) => ({ ...prev, [peerId]: stats })));
+    transport.on('peer-state', ({ peerId, state }) => {
+      setDirectPeers(transport.connectedPeerIds.length);
+      if (state === 'closed' || state === 'failed') {
+        setViewerRoutes(({ [peerId]: _removed, ...rest }) => rest);
+        setViewerStats(({ [peerId]: _removed, ...rest }) => rest);
+      }
+    });
+
+    const setup = async () => {
+      try {
+        await apiClient.post('/livestream/rooms/{roomId}/join', { path: { roomId }, body: { role: 'seller', userId: sellerId } });
+        await iceServers.load();
+        if (active) {
+          transport.publish(localMedia.stream);
+        }
+      } catch {
+        if (active) {
+          setConnectFailed(true);
+        }
+      }
+    };
+    setConnectFailed(false);
+    void setup();
+
+    return () => {
+      active = false;
+      unsubscribeMedia.forEach((unsubscribe) => unsubscribe());
+      iceServers.stop();
+      iceServersRef.current = null;
+      transport.stop();
+      transportRef.current = null;
+      setDirectPeers(0);
+      roomSocket.close();
+      roomSocketRef.current = null;
+      setSocketStatus(null);
+      socketRef.current = null;
+    };
+  }, [sellerId, roomId, localMedia, isLive, connectAttempt]);
+
+  // Toggling relay-only keeps the session: open peers take the new ICE policy and restart ICE in place.
+  useEffect(() => {
+    if (iceServersRef.current?.setOptions({ relayOnly })) {
+      transportRef.current?.updateConfiguration({ restartIce: true });
+    }
+  }, [relayOnly]);
+
+  // Bans close the viewer's peer connection and keep refusing it while the ban stands.
+  useEffect(() => {
+    transportRef.current?.setBlockedPeers(chat.moderation.bannedUserIds);
+  }, [chat.moderation.bannedUserIds]);
+
+  const goLiveMutation = useMutation({
+    mutationFn: () => apiClient.post('/livestream/rooms/{roomId}/start', { path: { roomId } }),
+    onSuccess: (room) => {
+      queryClient.setQueryData(roomQueryKeys.detail(roomId), room);
+      setIsLive(true);
+    },
+  });
+  const endLiveMutation = useMutation({
+    mutationFn: () => apiClient.post('/livestream/rooms/{roomId}/stop', { path: { roomId } }),
+    onSuccess: (room) => {
+      setIsConfirmingEnd(false);
+      setIsLive(false);
+      // The room guard swaps this page for the "ended" screen once the cached status flips.
+      queryClient.setQueryData(roomQueryKeys.detail(roomId), room);
+    },
+  });
+
+  const sendComment = (message: string) => {
+    if (!profile || !socketRef.current) {
+      return;
+    }
+    socketRef.current.emit('send_comment', {
+      roomId,
+      userId: profile.sub,
+      message,
+      displayName: displayNameFromEmail(profile.email),
+      role: 'seller',
+    } satisfies SendCommentPayload);
+  };
+
+  // Moderation, pins and Q&A only take effect when the server broadcasts them back, so every client
+  // (this one included) applies the same change; the controls are disabled while the socket is down.
+  const isSocketConnected = socketStatus?.status === 'connected';
+
+  const deleteComment = (commentId: string) => {
+    socketRef.current?.emit('delete_comment', { roomId, commentId } satisfies CommentHiddenPayload);
+  };
+
+  const moderateUser = (userId: number, action: UserModerationAction) => {
+    const payload: UserModeratedPayload = { roomId, userId, action, until: action === 'timeout' ? new Date(Date.now() + TIMEOUT_MS).toISOString() : null };
+    socketRef.current?.emit('moderate_user', payload);
+  };
+
+  const updateChatSettings = (settings: ChatSettings) => {
+    socketRef.current?.emit('update_chat_settings', { roomId, ...settings } satisfies ChatSettingsPayload);
+  };
+
+  const pinMessage = (pinned: PinnedMessage | null) => {
+    socketRef.current?.emit('pin_message', { roomId, pinned } satisfies PinnedMessagePayload);
+  };
+
+  const announce = (message: string) => {
+    if (!profile) {
+      return;
+    }
+    pinMessage({ id: `announcement-${Date.now()}`, userId: profile.sub, displayName: displayNameFromEmail(profile.email), message, pinnedAt: new Date().toISOString() });
+  };
+
+  const setQuestionStatus = (commentId: string, status: QuestionStatus) => {
+    socketRef.current?.emit('update_question', { roomId, commentId, status } satisfies QuestionUpdatedPayload);
+  };
+
+  const highlightQuestion = (commentId: string | null) => {
+    socketRef.current?.emit('highlight_question', { roomId, commentId } satisfies QuestionHighlightedPayload);
+  };
+
+  const shareProduct = () => {
+    if (!selectedProductId || !profile || !socketRef.current) {
+      return;
+    }
+    const product = (productsQuery.data ?? []).find((item) => item.id === selectedProductId);
+    if (!product) {
+      return;
+    }
+    socketRef.current.emit('share_product', {
+      roomId,
+      userId: profile.sub,
+      product,
+    });
+    recorder?.markProduct(product);
+  };
+
+  return (
+    <div className="min-h-screen bg-slate-100 p-4">
+      <div className="mx-auto grid max-w-6xl gap-4 lg:grid-cols-[1.5fr_1fr]">
+        <section className="rounded-2xl border bg-white p-4">
+          <div className="flex items-start justify-between gap-2">
+            <div className="flex items-center gap-2">
+              <h1 className="text-2xl font-semibold">{t('host.title')}</h1>
+              <LiveStateBadge state={sessionState} />
+            </div>
+            <LocaleSwitcher />
+          </div>
+          {socketStatus && (
+            <div className="my-2">
+              <ConnectionBanner
+                status={socketStatus}
+                onRetry={() => roomSocketRef.current?.retry()}
+                onSimulateDisconnect={() => roomSocketRef.current?.simulateDisconnect()}
+              />
+            </div>
+          )}
+          <p className="text-sm text-slate-500">{t('room.label', { roomId })}</p>
+          <p className="text-sm text-slate-500">{t('host.onlineViewers', { count: viewerCount })}</p>
+          <div className="relative mt-3 overflow-hidden rounded-xl bg-black">
+            <video ref={localVideoRef} className="aspect-video w-full" autoPlay muted playsInline controls />
+            <HighlightedQuestion message={chat.messages.find((message) => message.id === chat.qa.highlightedId) ?? null} />
+            <ReactionOverlay bursts={reactions.bursts} onDone={reactions.dismiss} />
+          </div>
+          {mediaError && <p className="mt-3 text-sm text-rose-600">{t(mediaError)}</p>}
+          {localMedia && localMediaState && (
+            <div className="mt-3">
+              <HostMediaControls media={localMedia} state={localMediaState} />
+            </div>
+          )}
+          {!isLive ? (
+            <div className="mt-3 space-y-3 rounded-xl border border-dashed p-3">
+              <div>
+                <p className="font-medium">{t('preflight.title')}</p>
+                <p className="text-sm text-slate-500">{t('preflight.hint')}</p>
+              </div>
+              <MicLevelMeter track={localMedia?.stream.getAudioTracks()[0] ?? null} />
+              <button
+                className="rounded-md bg-rose-600 px-4 py-2 text-sm font-medium text-white disabled:opacity-60"
+                onClick={() => goLiveMutation.mutate()}
+                disabled={!localMedia || goLiveMutation.isPending}
+              >
+                {t('preflight.goLive')}
+              </button>
+              {goLiveMutation.isError && <p className="text-sm text-rose-600">{t('preflight.startFailed')}</p>}
+            </div>
+          ) : (
+            <div className="mt-3 flex items-center justify-end gap-2">
+              {connectFailed && (
+                <p className="mr-auto flex items-center gap-2 text-sm text-rose-600">
+                  {t('host.connectFailed')}
+                  <button className="rounded-md border border-rose-300 px-2 py-1 text-xs" onClick={() => setConnectAttempt((attempt) => attempt + 1)}>
+                    {t('connection.retry')}
+                  </button>
+                </p>
+              )}
+              <button className="rounded-md border border-rose-300 px-3 py-2 text-sm text-rose-700" onClick={() => setIsConfirmingEnd(true)}>
+                {t('host.endLive')}
+              </button>
+            </div>
+          )}
+          {isLive && (
+            <div className="mt-3 flex flex-wrap items-start justify-between gap-2 text-xs text-slate-500">
+              <p>{t('host.directPeers', { count: directPeers, max: getAppConfig().maxDirectPeers })}</p>
+              <RelayOnlyToggle />
+              <div className="w-full">
+                <ReactionSparkline series={reactions.rateSeries} />
+              </div>
+              <div className="w-full">
+                <StreamHealthPanel stats={viewerStats} routes={viewerRoutes} />
+              </div>
+            </div>
+          )}
+        </section>
+        <section className="space-y-4">
+          <RecordingPanel roomId={roomId} recorder={recorder} canRecord={isLive} />
+          <div className="rounded-2xl border bg-white p-4">
+            <p className="mb-2 font-semibold">{t('host.shareTitle')}</p>
+            <select className="w-full rounded-md border px-3 py-2 text-sm" value={selectedProductId ?? ''} onChange={(e) => setSelectedProductId(e.target.value === '' ? null : Number(e.target.value))}>
+              <option value="">{t('host.selectProduct')}</option>
+              {(productsQuery.data ?? []).map((product) => (
+                <option key={product.id} value={product.id}>
+                  {product.title} - {money(product.price)}
+                </option>
+              ))}
+            </select>
+            <button className="mt-2 rounded-md bg-slate-900 px-3 py-2 text-sm text-white" onClick={shareProduct}>
+              {t('host.shareProduct')}
+            </button>
+          </div>
+          <ChatPanel
+            messages={chat.messages}
+            sellerId={sellerId ?? null}
+            currentUserId={profile?.sub ?? null}
+            isLoadingHistory={chat.isLoadingHistory}
+            onSend={sendComment}
+            qa={chat.qa}
+            moderation={{
+              onDelete: (message) => deleteComment(message.id),
+              onTimeout: (userId) => moderateUser(userId, 'timeout'),
+              onBan: (userId) => moderateUser(userId, 'ban'),
+              onPin: (message) => pinMessage(toPinnedMessage(message)),
+              onUnpin: () => pinMessage(null),
+              disabled: !isSocketConnected,
+            }}
+          />
+          <QuestionQueue
+            messages={chat.messages}
+            qa={chat.qa}
+            onAnnounce={announce}
+            onStatusChange={setQuestionStatus}
+            onHighlight={highlightQuestion}
+            disabled={!isSocketConnected}
+          />
+          <ChatModerationPanel
+            moderation={chat.moderation}
+            messages={chat.messages}
+            onSettingsChange={updateChatSettings}
+            onLift={(userId) => moderateUser(userId, 'lift')}
+            disabled={!isSocketConnected}
+          />
+        </section>
+      </div>
+      <ConfirmDialog
+        open={isConfirmingEnd}
+        title={t('host.endLiveConfirmTitle')}
+        description={t('host.endLiveConfirmDescription')}
+        confirmLabel={t('host.endLive')}
+        cancelLabel={t('common.cancel')}
+        isPending={endLiveMutation.isPending}
+        onConfirm={() => endLiveMutation.mutate()}
+        onCancel={() => setIsConfirmingEnd(false)}
+      />
+    </div>
+  );
+}
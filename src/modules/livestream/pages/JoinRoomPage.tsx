@@ -0,0 +1,322 @@
+import { useMutation } from '@tanstack/react-query';
+import { useEffect, useRef, useState } from 'react';
+import type { Socket } from 'socket.io-client';
+import { apiClient } from '../../../api-service/client';
+import type { Product } from '../../../api-service/models';
+import { useRoomIdParam } from '../../../app/routes';
+import { normalizeApiError } from '../../../shared/lib/api-error';
+import LocaleSwitcher from '../../../shared/i18n/LocaleSwitcher';
+import { useTranslation } from '../../../shared/i18n/use-translation';
+import { useSession } from '../../../shared/session/use-session';
+import { displayNameFromEmail, type SendCommentPayload } from '../chat/chat-model';
+import { restrictionFor, type CommentReportPayload } from '../chat/chat-moderation';
+import ChatPanel from '../components/ChatPanel';
+import ConnectionBanner from '../components/ConnectionBanner';
+import { CandidateRoute, RelayOnlyToggle } from '../components/IceDiagnostics';
+import LiveStateBadge from '../components/LiveStateBadge';
+import { HighlightedQuestion } from '../components/QuestionQueue';
+import { ReactionBar, ReactionOverlay } from '../components/Reactions';
+import { ConnectionQuality } from '../components/StreamHealth';
+import { useRelayOnly } from '../hooks/use-relay-only';
+import { useRoom } from '../hooks/use-room';
+import { useReactions } from '../hooks/use-reactions';
+import { useRoomChat } from '../hooks/use-room-chat';
+import { createRoomIceServers, type RoomIceServers, type SelectedCandidatePair } from '../session/ice-servers';
+import { createMediaTransport, type MediaTransport, type MediaTransportState } from '../session/media-transport';
+import { createReactionBatcher, type ReactionBatcher, type ReactionBatchPayload, type ReactionKind } from '../reactions/reactions';
+import type { PeerStats } from '../session/peer-stats';
+import { bindSocketListeners, createRoomSocket, type RoomSocket, type RoomSocketStatus } from '../session/room-socket';
+import type { MediaState } from '../types';
+
+export default function JoinRoomPage() {
+  const roomId = useRoomIdParam();
+  const { t, money } = useTranslation();
+  const socketRef = useRef<Socket | null>(null);
+  const roomSocketRef = useRef<RoomSocket | null>(null);
+  const remoteVideoRef = useRef<HTMLVideoElement | null>(null);
+  const reactionBatcherRef = useRef<ReactionBatcher | null>(null);
+  const transportRef = useRef<MediaTransport | null>(null);
+  const iceServersRef = useRef<RoomIceServers | null>(null);
+  const [viewerCount, setViewerCount] = useState(0);
+  const [sessionState, setSessionState] = useState<MediaTransportState>('idle');
+  const [socketStatus, setSocketStatus] = useState<RoomSocketStatus | null>(null);
+  const [hostMedia, setHostMedia] = useState<MediaState | null>(null);
+  const [candidatePair, setCandidatePair] = useState<SelectedCandidatePair | null>(null);
+  const [roomFull, setRoomFull] = useState(false);
+  const [linkStats, setLinkStats] = useState<PeerStats | null>(null);
+  const { relayOnly } = useRelayOnly();
+  // The guard renders the "ended" screen as soon as polling sees the host stop the show.
+  const roomQuery = useRoom(roomId, { pollStatus: true });
+  const isRoomStarted = roomQuery.data?.status === 'active';
+  const [featuredProducts, setFeaturedProducts] = useState<Product[]>([]);
+  const [placedOrderId, setPlacedOrderId] = useState<number | null>(null);
+
+  const { profile, profileQuery, isAuthenticated } = useSession();
+  // The id is picked once, after the profile settles: switching it mid-session would leave the
+  // first join behind as a ghost viewer and attach the chat and session to a different user.
+  const viewerIdRef = useRef<number | null>(null);
+  if (viewerIdRef.current === null && (!isAuthenticated || !profileQuery.isPending)) {
+    viewerIdRef.current = profile?.sub ?? Math.floor(Math.random() * 1000000) + 1;
+  }
+  const viewerId = viewerIdRef.current;
+  const chat = useRoomChat(roomId);
+  const restriction = viewerId === null ? null : restrictionFor(chat.moderation, viewerId);
+  const isBanned = restriction?.kind === 'banned';
+  const reactions = useReactions(roomId);
+  const socketListenersRef = useRef({ ...chat.socketListeners, ...reactions.socketListeners });
+  useEffect(() => {
+    socketListenersRef.current = { ...chat.socketListeners, ...reactions.socketListeners };
+  });
+
+  const joinMutation = useMutation({
+    mutationFn: (userId: number) =>
+      apiClient.post('/livestream/rooms/{roomId}/join', {
+        path: { roomId },
+        body: { role: 'viewer', userId },
+      }),
+    onSuccess: (data) => setViewerCount(data.room.viewerCount),
+    meta: { silent: true },
+  });
+  const joinErrorText = joinMutation.error ? normalizeApiError(joinMutation.error).message : null;
+
+  // A scheduled room has nothing to join yet; polling flips `isRoomStarted` once the seller goes live.
+  useEffect(() => {
+    if (isRoomStarted && viewerId !== null) {
+      joinMutation.mutate(viewerId);
+    }
+  }, [roomId, viewerId, isRoomStarted]);
+
+  // The room socket only opens once `/join` has registered the viewer.
+  useEffect(() => {
+    if (!joinMutation.isSuccess || !isRoomStarted || viewerId === null) {
+      return;
+    }
+    const roomSocket = createRoomSocket();
+    const { socket } = roomSocket;
+    roomSocketRef.current = roomSocket;
+    socketRef.current = socket;
+    setSocketStatus(roomSocket.status);
+    roomSocket.on('status', setSocketStatus);
+
+    socket.on('viewer_count_updated', (payload: { roomId: string; viewerCount: number }) => {
+      if (payload.roomId === roomId) {
+        setViewerCount(payload.viewerCount);
+      }
+    });
+    bindSocketListeners(socket, socketListenersRef);
+    const reactionBatcher = createReactionBatcher((counts) => socket.emit('send_reactions', { roomId, userId: viewerId, counts } satisfies ReactionBatchPayload));
+    reactionBatcherRef.current = reactionBatcher;
+    socket.on('product_shared', (payload: { roomId: string; product: Product }) => {
+      if (payload.roomId === roomId) {
+        setFeaturedProducts((prev) => [payload.product, ...prev.filter((p) => p.id !== payload.product.id)].slice(0, 10));
+      }
+    });
+
+    const iceServers = createRoomIceServers(roomId, { relayOnly });
+    iceServersRef.current = iceServers;
+    const transport = createMediaTransport({
+      kind: 'mesh',
+      role: 'viewer',
+      roomId,
+      userId: viewerId,
+      socket,
+      rtcConfiguration: () => iceServers.configuration,
+      joinPayload: () => {
+        const commentsSince = chat.lastMessageAt();
+        return commentsSince ? { commentsSince } : {};
+      },
+    });
+    transportRef.current = transport;
+    iceServers.on('change', () => transport.updateConfiguration());
+    transport.on('state', ({ state, previous }) => {
+      setSessionState(state);
+      // Losing the host after being live usually means the show ended; confirm without waiting for the next poll.
+      if (previous === 'live' && state === 'joining') {
+        void roomQuery.refetch();
+      }
+    });
+    transport.on('remote-stream', (stream) => {
+      if (remoteVideoRef.current) {
+        remoteVideoRef.current.srcObject = stream;
+      }
+      if (!stream) {
+        setCandidatePair(null);
+        setLinkStats(null);
+      }
+    });
+    transport.on('candidate-pair', ({ pair }) => setCandidatePair(pair));
+    transport.on('media-state', setHostMedia);
+    transport.on('room-full', setRoomFull);
+    transport.on('peer-stats', ({ stats }) => setLinkStats(stats));
+    void iceServers.load().then(() => transport.subscribe());
+
+    return () => {
+      iceServers.stop();
+      iceServersRef.current = null;
+      transport.stop();
+      transportRef.current = null;
+      reactionBatcher.stop();
+      reactionBatcherRef.current = null;
+      roomSocket.close();
+      roomSocketRef.current = null;
+      setSocketStatus(null);
+    };
+  }, [joinMutation.isSuccess, isRoomStarted, roomId, viewerId]);
+
+  // Toggling relay-only keeps the session: open peers take the new ICE policy and restart ICE in place.
+  useEffect(() => {
+    if (iceServersRef.current?.setOptions({ relayOnly })) {
+      transportRef.current?.updateConfiguration({ restartIce: true });
+    }
+  }, [relayOnly]);
+
+  // The seller ignores banned viewers, so only a fresh `join_room` brings an offer once the ban is lifted.
+  const wasBannedRef = useRef(isBanned);
+  useEffect(() => {
+    if (wasBannedRef.current && !isBanned) {
+      transportRef.current?.rejoin();
+    }
+    wasBannedRef.current = isBanned;
+  }, [isBanned]);
+
+  const sendComment = (message: string, isQuestion: boolean) => {
+    if (!socketRef.current || viewerId === null) {
+      return;
+    }
+    socketRef.current.emit('send_comment', {
+      roomId,
+      userId: viewerId,
+      message,
+      displayName: displayNameFromEmail(profile?.email),
+      role: 'viewer',
+      isQuestion,
+    } satisfies SendCommentPayload);
+  };
+
+  const react = (kind: ReactionKind) => {
+    reactionBatcherRef.current?.add(kind);
+    reactions.show({ [kind]: 1 });
+  };
+
+  const reportComment = (commentId: string) => {
+    if (viewerId !== null) {
+      socketRef.current?.emit('report_comment', { roomId, commentId, reporterId: viewerId } satisfies CommentReportPayload);
+    }
+  };
+
+  const buyMutation = useMutation({
+    mutationFn: (productId: number) =>
+      apiClient.post('/orders', {
+        body: {
+          source: 'LIVE',
+          roomId,
+          items: [{ productId, quantity: 1 }],
+        },
+      }),
+    onSuccess: (order) => setPlacedOrderId(order.id),
+  });
+
+  return (
+    <div className="min-h-screen bg-slate-100 p-4">
+      <div className="mx-auto grid max-w-6xl gap-4 lg:grid-cols-[1.5fr_1fr]">
+        <section className="rounded-2xl border bg-white p-4">
+          <div className="flex items-start justify-between gap-2">
+            <div className="flex items-center gap-2">
+              <h1 className="text-2xl font-semibold">{t('viewer.title')}</h1>
+              <LiveStateBadge state={sessionState} />
+            </div>
+            <LocaleSwitcher />
+          </div>
+          {socketStatus && (
+            <div className="my-2">
+              <ConnectionBanner
+                status={socketStatus}
+                onRetry={() => roomSocketRef.current?.retry()}
+                onSimulateDisconnect={() => roomSocketRef.current?.simulateDisconnect()}
+              />
+            </div>
+          )}
+          <p className="text-sm text-slate-500">{t('room.label', { roomId })}</p>
+          <p className="text-sm text-slate-500">{t('viewer.online', { count: viewerCount })}</p>
+          <div className="relative mt-3 overflow-hidden rounded-xl bg-black">
+            <video ref={remoteVideoRef} className="aspect-video w-full" autoPlay playsInline controls />
+            <HighlightedQuestion message={chat.messages.find((message) => message.id === chat.qa.highlightedId) ?? null} />
+            <ReactionOverlay bursts={reactions.bursts} onDone={reactions.dismiss} />
+            {roomQuery.data?.status === 'scheduled' && (
+              <div className="absolute inset-0 flex flex-col items-center justify-center gap-1 bg-slate-900 p-4 text-center text-slate-200">
+                <p className="font-medium">{t('viewer.notStarted')}</p>
+                <p className="text-sm text-slate-400">{t('viewer.notStartedHint')}</p>
+              </div>
+            )}
+            {isBanned && (
+              <div className="absolute inset-0 flex flex-col items-center justify-center gap-1 bg-slate-900 p-4 text-center text-slate-200">
+                <p className="font-medium">{t('viewer.banned')}</p>
+                <p className="text-sm text-slate-400">{t('viewer.bannedHint')}</p>
+              </div>
+            )}
+            {roomFull && (
+              <div className="absolute inset-0 flex flex-col items-center justify-center gap-1 bg-slate-900 p-4 text-center text-slate-200">
+                <p className="font-medium">{t('viewer.roomFull')}</p>
+                <p className="text-sm text-slate-400">{t('viewer.roomFullHint')}</p>
+              </div>
+            )}
+            {hostMedia?.cameraOff && (
+              <div className="absolute inset-0 flex items-center justify-center bg-slate-900 text-sm text-slate-200">{t('media.hostCameraOff')}</div>
+            )}
+            <div className="pointer-events-none absolute left-2 top-2 flex gap-1 text-xs">
+              {hostMedia?.source === 'screen' && <span className="rounded bg-cyan-600/90 px-2 py-0.5 text-white">{t('media.hostSharingScreen')}</span>}
+              {hostMedia?.muted && <span className="rounded bg-rose-600/90 px-2 py-0.5 text-white">{t('media.hostMuted')}</span>}
+            </div>
+          </div>
+          <div className="mt-2">
+            <ReactionBar onReact={react} disabled={!isRoomStarted || isBanned} />
+          </div>
+          <div className="mt-2 flex flex-wrap items-center justify-between gap-2 text-xs text-slate-500">
+            <span className="flex flex-wrap items-center gap-3">
+              <ConnectionQuality stats={linkStats} />
+              <CandidateRoute pair={candidatePair} />
+            </span>
+            <RelayOnlyToggle />
+          </div>
+          {joinMutation.isError && <p className="mt-3 text-sm text-rose-600">{joinErrorText ?? t('viewer.joinFailed')}</p>}
+        </section>
+        <section className="space-y-4">
+          <ChatPanel
+            messages={chat.messages}
+            sellerId={roomQuery.data?.sellerId ?? null}
+            currentUserId={viewerId}
+            isLoadingHistory={chat.isLoadingHistory}
+            onSend={sendComment}
+            qa={chat.qa}
+            canAskQuestions
+            onReport={(message) => reportComment(message.id)}
+            rules={chat.moderation.settings}
+            restriction={restriction}
+          />
+          <div className="rounded-2xl border bg-white p-4">
+            <p className="mb-2 font-semibold">{t('viewer.featuredProducts')}</p>
+            {placedOrderId !== null && (
+              <p className="mb-2 rounded-md border border-emerald-300 bg-emerald-50 px-2 py-1 text-xs text-emerald-700">{t('order.placed', { id: placedOrderId })}</p>
+            )}
+            <div className="space-y-2">
+              {featuredProducts.map((product) => (
+                <article key={product.id} className="rounded-lg border p-2">
+                  <img src={product.imageUrl} alt={product.title} className="h-24 w-full rounded object-cover" />
+                  <p className="mt-1 text-sm font-medium">{product.title}</p>
+                  <p className="text-sm font-semibold">{money(product.price)}</p>
+                  <button
+                    className="mt-2 rounded-md bg-cyan-600 px-2 py-1 text-xs text-white disabled:opacity-60"
+                    onClick={() => buyMutation.mutate(product.id)}
+                    disabled={buyMutation.isPending}
+                  >
+                    {t('viewer.buyNow')}
+                  </button>
+                </article>
+              ))}
+            </div>
+          </div>
+        </section>
+      </div>
+    </div>
+  );
+}
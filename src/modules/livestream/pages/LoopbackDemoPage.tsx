@@ -0,0 +1,195 @@
+import { useEffect, useRef, useState } from 'react';
+import type { MessageKey } from '../../../shared/i18n/i18n';
+import LocaleSwitcher from '../../../shared/i18n/LocaleSwitcher';
+import { useTranslation } from '../../../shared/i18n/use-translation';
+import { getAppConfig } from '../../../shared/lib/app-config';
+import HostMediaControls from '../components/HostMediaControls';
+import LiveStateBadge from '../components/LiveStateBadge';
+import { createLocalMedia, type LocalMedia, type LocalMediaState } from '../session/local-media';
+import { createLoopbackHub, type LoopbackHub } from '../session/loopback-transport';
+import { createMediaTransport, type MediaTransportState } from '../session/media-transport';
+import type { MediaState } from '../types';
+
+const DEMO_ROOM_ID = 'loopback-demo';
+const HOST_ID = 1;
+
+const toMediaState = ({ muted, cameraOff, source }: LocalMediaState): MediaState => ({ muted, cameraOff, source });
+
+function DemoHost({ hub }: { hub: LoopbackHub }) {
+  const { t } = useTranslation();
+  const videoRef = useRef<HTMLVideoElement | null>(null);
+  const [localMedia, setLocalMedia] = useState<LocalMedia | null>(null);
+  const [localMediaState, setLocalMediaState] = useState<LocalMediaState | null>(null);
+  const [mediaError, setMediaError] = useState<MessageKey | null>(null);
+  const [sessionState, setSessionState] = useState<MediaTransportState>('idle');
+  const [directPeers, setDirectPeers] = useState(0);
+
+  useEffect(() => {
+    let active = true;
+    const media = createLocalMedia();
+    media.on('change', setLocalMediaState);
+    media.on('error', () => setMediaError('media.deviceError'));
+    media
+      .start()
+      .then(() => {
+        if (!active) {
+          return;
+        }
+        setLocalMedia(media);
+        setLocalMediaState(media.state);
+      })
+      .catch(() => {
+        if (active) {
+          setMediaError('media.deviceError');
+        }
+      });
+    return () => {
+      active = false;
+      media.stop();
+      setLocalMedia(null);
+    };
+  }, []);
+
+  useEffect(() => {
+    if (!localMedia) {
+      return;
+    }
+    if (videoRef.current) {
+      videoRef.current.srcObject = localMedia.stream;
+    }
+    const transport = createMediaTransport({ kind: 'loopback', hub, role: 'seller', roomId: DEMO_ROOM_ID, userId: HOST_ID, maxPeers: getAppConfig().maxDirectPeers });
+    transport.on('state', ({ state }) => setSessionState(state));
+    transport.on('peer-state', () => setDirectPeers(transport.connectedPeerIds.length));
+    transport.setMediaState(toMediaState(localMedia.state));
+    const unsubscribeMedia = [
+      localMedia.on('change', (next) => transport.setMediaState(toMediaState(next))),
+      localMedia.on('track-replaced', ({ track }) => void transport.replaceTrack(track)),
+    ];
+    transport.publish(localMedia.stream);
+    setDirectPeers(transport.connectedPeerIds.length);
+
+    return () => {
+      unsubscribeMedia.forEach((unsubscribe) => unsubscribe());
+      transport.stop();
+      setDirectPeers(0);
+    };
+  }, [hub, localMedia]);
+
+  return (
+    <section className="rounded-2xl border bg-white p-4">
+      <div className="flex items-center gap-2">
+        <h2 className="font-semibold">{t('demo.host')}</h2>
+        <LiveStateBadge state={sessionState} />
+      </div>
+      <div className="mt-3 overflow-hidden rounded-xl bg-black">
+        <video ref={videoRef} className="aspect-video w-full" autoPlay muted playsInline />
+      </div>
+      {mediaError && <p className="mt-3 text-sm text-rose-600">{t(mediaError)}</p>}
+      {localMedia && localMediaState && (
+        <div className="mt-3">
+          <HostMediaControls media={localMedia} state={localMediaState} />
+        </div>
+      )}
+      <p className="mt-3 text-xs text-slate-500">{t('host.directPeers', { count: directPeers, max: getAppConfig().maxDirectPeers })}</p>
+    </section>
+  );
+}
+
+function DemoViewer({ hub, userId, onRemove }: { hub: LoopbackHub; userId: number; onRemove: () => void }) {
+  const { t } = useTranslation();
+  const videoRef = useRef<HTMLVideoElement | null>(null);
+  const [sessionState, setSessionState] = useState<MediaTransportState>('idle');
+  const [hostMedia, setHostMedia] = useState<MediaState | null>(null);
+  const [roomFull, setRoomFull] = useState(false);
+
+  useEffect(() => {
+    const transport = createMediaTransport({ kind: 'loopback', hub, role: 'viewer', roomId: DEMO_ROOM_ID, userId });
+    transport.on('state', ({ state }) => setSessionState(state));
+    transport.on('remote-stream', (stream) => {
+      if (videoRef.current) {
+        videoRef.current.srcObject = stream;
+      }
+      if (!stream) {
+        setHostMedia(null);
+      }
+    });
+    transport.on('media-state', setHostMedia);
+    transport.on('room-full', setRoomFull);
+    transport.subscribe();
+    return () => transport.stop();
+  }, [hub, userId]);
+
+  return (
+    <article className="rounded-2xl border bg-white p-4">
+      <div className="flex items-center justify-between gap-2">
+        <div className="flex items-center gap-2">
+          <h2 className="font-semibold">{t('demo.viewer', { id: userId })}</h2>
+          <LiveStateBadge state={sessionState} />
+        </div>
+        <button className="rounded-md border px-2 py-1 text-xs" onClick={onRemove}>
+          {t('demo.removeViewer')}
+        </button>
+      </div>
+      <div className="relative mt-3 overflow-hidden rounded-xl bg-black">
+        {/* Muted: the host's microphone would otherwise play back into itself from the same tab. */}
+        <video ref={videoRef} className="aspect-video w-full" autoPlay muted playsInline />
+        {roomFull && (
+          <div className="absolute inset-0 flex flex-col items-center justify-center gap-1 bg-slate-900 p-4 text-center text-slate-200">
+            <p className="font-medium">{t('viewer.roomFull')}</p>
+            <p className="text-sm text-slate-400">{t('viewer.roomFullHint')}</p>
+          </div>
+        )}
+        {hostMedia?.cameraOff && (
+          <div className="absolute inset-0 flex items-center justify-center bg-slate-900 text-sm text-slate-200">{t('media.hostCameraOff')}</div>
+        )}
+        <div className="pointer-events-none absolute left-2 top-2 flex gap-1 text-xs">
+          {hostMedia?.source === 'screen' && <span className="rounded bg-cyan-600/90 px-2 py-0.5 text-white">{t('media.hostSharingScreen')}</span>}
+          {hostMedia?.muted && <span className="rounded bg-rose-600/90 px-2 py-0.5 text-white">{t('media.hostMuted')}</span>}
+        </div>
+      </div>
+    </article>
+  );
+}
+
+/**
+ * Host and viewers of one room mounted side by side over the loopback transport, for trying the
+ * room UI offline: no API calls, room socket or ICE servers are involved.
+ */
+export default function LoopbackDemoPage() {
+  const { t } = useTranslation();
+  // A hub per visit, so only the transports on this page see each other.
+  const [hub] = useState(createLoopbackHub);
+  const [viewerIds, setViewerIds] = useState<number[]>([HOST_ID + 1]);
+  const nextViewerIdRef = useRef(HOST_ID + 2);
+
+  const addViewer = () => {
+    const id = nextViewerIdRef.current;
+    nextViewerIdRef.current += 1;
+    setViewerIds((prev) => [...prev, id]);
+  };
+
+  return (
+    <div className="min-h-screen bg-slate-100 p-4">
+      <div className="mx-auto max-w-6xl space-y-4">
+        <div className="flex items-start justify-between gap-2">
+          <div>
+            <h1 className="text-2xl font-semibold">{t('demo.title')}</h1>
+            <p className="text-sm text-slate-500">{t('demo.hint')}</p>
+          </div>
+          <LocaleSwitcher />
+        </div>
+        <div className="grid gap-4 lg:grid-cols-[1.5fr_1fr]">
+          <DemoHost hub={hub} />
+          <div className="space-y-4">
+            {viewerIds.map((id) => (
+              <DemoViewer key={id} hub={hub} userId={id} onRemove={() => setViewerIds((prev) => prev.filter((viewerId) => viewerId !== id))} />
+            ))}
+            <button className="rounded-md bg-slate-900 px-3 py-2 text-sm text-white" onClick={addViewer}>
+              {t('demo.addViewer')}
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,201 @@
+import { useMutation } from '@tanstack/react-query';
+import { isAxiosError } from 'axios';
+import { useEffect, useMemo, useRef, useState } from 'react';
+import { Link } from 'react-router-dom';
+import { apiClient } from '../../../api-service/client';
+import type { ReplayProductMoment } from '../../../api-service/models';
+import RouteFallback from '../../../app/RouteFallback';
+import { paths, useRoomIdParam } from '../../../app/routes';
+import StatusScreen, { statusPrimaryActionClass } from '../../../shared/components/StatusScreen';
+import LocaleSwitcher from '../../../shared/i18n/LocaleSwitcher';
+import { useTranslation } from '../../../shared/i18n/use-translation';
+import { formatDuration } from '../../../shared/lib/time';
+import { useRoomReplay } from '../hooks/use-room';
+
+// A product card stays highlighted this long after the moment it was shared.
+const SPOTLIGHT_MS = 15_000;
+const VISIBLE_COMMENTS = 40;
+
+/** Last index whose `atMs` is at or before `currentMs`; the lists arrive sorted by time. */
+function lastIndexAt(items: Array<{ atMs: number }>, currentMs: number) {
+  let low = 0;
+  let high = items.length - 1;
+  let found = -1;
+  while (low <= high) {
+    const middle = (low + high) >> 1;
+    if (items[middle].atMs <= currentMs) {
+      found = middle;
+      low = middle + 1;
+    } else {
+      high = middle - 1;
+    }
+  }
+  return found;
+}
+
+export default function ReplayPage() {
+  const roomId = useRoomIdParam();
+  const { t, money } = useTranslation();
+  const replayQuery = useRoomReplay(roomId);
+  const videoRef = useRef<HTMLVideoElement | null>(null);
+  const [currentMs, setCurrentMs] = useState(0);
+  const [orderNotice, setOrderNotice] = useState<string | null>(null);
+
+  const comments = useMemo(() => [...(replayQuery.data?.comments ?? [])].sort((a, b) => a.atMs - b.atMs), [replayQuery.data]);
+  const moments = useMemo(() => [...(replayQuery.data?.products ?? [])].sort((a, b) => a.atMs - b.atMs), [replayQuery.data]);
+
+  useEffect(() => {
+    const video = videoRef.current;
+    if (!video) {
+      return;
+    }
+    const sync = () => setCurrentMs(video.currentTime * 1000);
+    video.addEventListener('timeupdate', sync);
+    video.addEventListener('seeked', sync);
+    return () => {
+      video.removeEventListener('timeupdate', sync);
+      video.removeEventListener('seeked', sync);
+    };
+  }, [replayQuery.data]);
+
+  const buyMutation = useMutation({
+    mutationFn: (productId: number) =>
+      apiClient.post('/orders', {
+        body: {
+          // The show is over, so this is a store order rather than a live sale.
+          source: 'STORE',
+          items: [{ productId, quantity: 1 }],
+        },
+      }),
+    onSuccess: (order) => {
+      setOrderNotice(t('order.placed', { id: order.id }));
+    },
+  });
+
+  const seekTo = (moment: ReplayProductMoment) => {
+    const video = videoRef.current;
+    if (!video) {
+      return;
+    }
+    video.currentTime = moment.atMs / 1000;
+    void video.play().catch(() => undefined);
+  };
+
+  if (replayQuery.isPending) {
+    return <RouteFallback />;
+  }
+  if (replayQuery.isError) {
+    const notFound = isAxiosError(replayQuery.error) && replayQuery.error.response?.status === 404;
+    return (
+      <StatusScreen
+        eyebrow={notFound ? '404' : t('common.error')}
+        title={notFound ? t('replay.notAvailableTitle') : t('replay.loadFailedTitle')}
+        description={t('room.label', { roomId })}
+        actions={
+          <Link className={statusPrimaryActionClass} to={paths.home()}>
+            {t('common.home')}
+          </Link>
+        }
+      />
+    );
+  }
+
+  const replay = replayQuery.data;
+  const visibleComments = comments.slice(0, lastIndexAt(comments, currentMs) + 1).slice(-VISIBLE_COMMENTS);
+  const pastMoments = moments.slice(0, lastIndexAt(moments, currentMs) + 1).reverse();
+  // A product shared twice gets one card, placed at its latest share.
+  const shownMoments = pastMoments.filter((moment, index) => pastMoments.findIndex((item) => item.product.id === moment.product.id) === index);
+  const spotlight = pastMoments[0] && currentMs - pastMoments[0].atMs < SPOTLIGHT_MS ? pastMoments[0] : null;
+
+  return (
+    <div className="min-h-screen bg-slate-100 p-4">
+      <div className="mx-auto grid max-w-6xl gap-4 lg:grid-cols-[1.5fr_1fr]">
+        <section className="rounded-2xl border bg-white p-4">
+          <div className="flex items-start justify-between gap-2">
+            <div>
+              <p className="text-xs font-medium uppercase tracking-wide text-slate-400">{t('replay.eyebrow')}</p>
+              <h1 className="text-2xl font-semibold">{replay.title}</h1>
+            </div>
+            <LocaleSwitcher />
+          </div>
+          <div className="relative mt-3 overflow-hidden rounded-xl bg-black">
+            <video ref={videoRef} className="aspect-video w-full" src={replay.videoUrl} controls playsInline />
+            {spotlight && (
+              <button
+                key={`${spotlight.product.id}-${spotlight.atMs}`}
+                className="absolute bottom-14 left-3 flex max-w-xs items-center gap-2 rounded-xl bg-white/95 p-2 text-left shadow-lg"
+                onClick={() => buyMutation.mutate(spotlight.product.id)}
+                disabled={buyMutation.isPending}
+              >
+                <img src={spotlight.product.imageUrl} alt={spotlight.product.title} className="h-12 w-12 rounded object-cover" />
+                <span>
+                  <span className="block text-sm font-medium">{spotlight.product.title}</span>
+                  <span className="block text-xs text-cyan-700">
+                    {money(spotlight.product.price)} · {t('replay.buy')}
+                  </span>
+                </span>
+              </button>
+            )}
+          </div>
+          {moments.length > 0 && (
+            <div className="mt-3">
+              <p className="mb-1 text-sm font-semibold">{t('replay.chapters')}</p>
+              <ol className="flex flex-wrap gap-2 text-xs">
+                {moments.map((moment) => (
+                  <li key={`${moment.product.id}-${moment.atMs}`}>
+                    <button
+                      className={`rounded-full border px-3 py-1 ${spotlight === moment ? 'border-cyan-600 bg-cyan-50 text-cyan-800' : 'text-slate-600'}`}
+                      onClick={() => seekTo(moment)}
+                    >
+                      {formatDuration(moment.atMs)} · {moment.product.title}
+                    </button>
+                  </li>
+                ))}
+              </ol>
+            </div>
+          )}
+        </section>
+        <section className="space-y-4">
+          <div className="rounded-2xl border bg-white p-4">
+            <p className="mb-2 font-semibold">{t('replay.comments')}</p>
+            <div className="max-h-60 space-y-1 overflow-auto text-sm">
+              {visibleComments.map((c, idx) => (
+                <p key={`${c.userId}-${c.atMs}-${idx}`}>
+                  <span className="mr-1 text-xs text-slate-400">{formatDuration(c.atMs)}</span>
+                  <span className="font-medium">{c.displayName ?? t('chat.guest', { id: c.userId })}</span>
+                  {c.role === 'seller' && <span className="ml-1 rounded bg-rose-100 px-1 text-[10px] font-semibold uppercase text-rose-700">{t('chat.sellerBadge')}</span>}: {c.message}
+                </p>
+              ))}
+            </div>
+          </div>
+          <div className="rounded-2xl border bg-white p-4">
+            <p className="mb-2 font-semibold">{t('viewer.featuredProducts')}</p>
+            {orderNotice && <p className="mb-2 rounded-md border border-emerald-300 bg-emerald-50 px-2 py-1 text-xs text-emerald-700">{orderNotice}</p>}
+            {shownMoments.length === 0 && <p className="text-sm text-slate-500">{t('replay.noProductsYet')}</p>}
+            <div className="space-y-2">
+              {shownMoments.map((moment) => (
+                <article key={`${moment.product.id}-${moment.atMs}`} className="rounded-lg border p-2">
+                  <img src={moment.product.imageUrl} alt={moment.product.title} className="h-24 w-full rounded object-cover" />
+                  <p className="mt-1 text-sm font-medium">{moment.product.title}</p>
+                  <p className="text-sm font-semibold">{money(moment.product.price)}</p>
+                  <div className="mt-2 flex gap-2">
+                    <button
+                      className="rounded-md bg-cyan-600 px-2 py-1 text-xs text-white disabled:opacity-60"
+                      onClick={() => buyMutation.mutate(moment.product.id)}
+                      disabled={buyMutation.isPending}
+                    >
+                      {t('replay.buy')}
+                    </button>
+                    <button className="rounded-md border px-2 py-1 text-xs" onClick={() => seekTo(moment)}>
+                      {t('replay.jumpTo', { time: formatDuration(moment.atMs) })}
+                    </button>
+                  </div>
+                </article>
+              ))}
+            </div>
+          </div>
+        </section>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,45 @@
+import { describe, expect, it } from 'vitest';
+import { createReactionBatcher, type ReactionCounts, type ReactionFlushSchedule } from './reactions';
+
+/** A schedule the test flushes by hand, standing in for `requestAnimationFrame`. */
+function createManualSchedule() {
+  const queued: Array<() => void> = [];
+  const schedule: ReactionFlushSchedule = (flush) => {
+    queued.push(flush);
+    return () => queued.splice(queued.indexOf(flush), 1);
+  };
+  return { schedule, queued, runFrame: () => queued.splice(0).forEach((flush) => flush()) };
+}
+
+describe('createReactionBatcher', () => {
+  it('sums batches that arrive before the next frame into one flush', () => {
+    const { schedule, queued, runFrame } = createManualSchedule();
+    const flushed: ReactionCounts[] = [];
+    const batcher = createReactionBatcher((counts) => flushed.push(counts), schedule);
+
+    batcher.addCounts({ heart: 3, fire: 1 });
+    batcher.addCounts({ heart: 2, clap: 4 });
+    batcher.add('fire');
+    expect(queued).toHaveLength(1);
+    expect(flushed).toEqual([]);
+
+    runFrame();
+    expect(flushed).toEqual([{ heart: 5, fire: 2, clap: 4 }]);
+
+    batcher.addCounts({ buy: 1 });
+    runFrame();
+    expect(flushed).toEqual([{ heart: 5, fire: 2, clap: 4 }, { buy: 1 }]);
+  });
+
+  it('drops pending counts on stop', () => {
+    const { schedule, queued, runFrame } = createManualSchedule();
+    const flushed: ReactionCounts[] = [];
+    const batcher = createReactionBatcher((counts) => flushed.push(counts), schedule);
+
+    batcher.addCounts({ heart: 1 });
+    batcher.stop();
+    expect(queued).toEqual([]);
+    runFrame();
+    expect(flushed).toEqual([]);
+  });
+});
@@ -0,0 +1,138 @@
+export const REACTION_KINDS = ['heart', 'fire', 'clap', 'buy'] as const;
+
+export type ReactionKind = (typeof REACTION_KINDS)[number];
+
+export type ReactionCounts = Partial<Record<ReactionKind, number>>;
+
+export const REACTION_EMOJI: Record<ReactionKind, string> = {
+  heart: '❤️',
+  fire: '🔥',
+  clap: '👏',
+  buy: '🛍️',
+};
+
+/** Viewer → server: `send_reactions`, one batch per flush instead of one event per tap. */
+export type ReactionBatchPayload = {
+  roomId: string;
+  userId: number;
+  counts: ReactionCounts;
+};
+
+/** Server → room: `reactions`, other viewers' batches (the server may merge several into one). */
+export type ReactionsPayload = {
+  roomId: string;
+  counts: ReactionCounts;
+};
+
+/** One floating emoji in the overlay. */
+export type ReactionBurst = {
+  id: number;
+  kind: ReactionKind;
+  /** Horizontal start, percent of the player width. */
+  left: number;
+  /** Sideways sway at the top of the flight, px. */
+  drift: number;
+  delayMs: number;
+};
+
+export type ReactionBatcher = ReturnType<typeof createReactionBatcher>;
+
+/** Calls `flush` once, later; returns a function that cancels it. */
+export type ReactionFlushSchedule = (flush: () => void) => () => void;
+
+export const REACTION_FLUSH_MS = 500;
+
+/** Receiving side: batches that arrive within one frame are drawn together. */
+export const nextAnimationFrame: ReactionFlushSchedule = (flush) => {
+  const frame = requestAnimationFrame(flush);
+  return () => cancelAnimationFrame(frame);
+};
+
+const afterDelay =
+  (delayMs: number): ReactionFlushSchedule =>
+  (flush) => {
+    const timer = setTimeout(flush, delayMs);
+    return () => clearTimeout(timer);
+  };
+
+// However many taps a batch carries, a kind spawns at most this many emojis, and the overlay keeps this many alive.
+const MAX_BURSTS_PER_KIND = 6;
+export const MAX_BURSTS = 40;
+
+let burstSequence = 0;
+
+export function totalReactions(counts: ReactionCounts) {
+  return REACTION_KINDS.reduce((sum, kind) => sum + (counts[kind] ?? 0), 0);
+}
+
+export function spawnBursts(counts: ReactionCounts): ReactionBurst[] {
+  return REACTION_KINDS.flatMap((kind) =>
+    Array.from({ length: Math.min(counts[kind] ?? 0, MAX_BURSTS_PER_KIND) }, () => ({
+      id: (burstSequence += 1),
+      kind,
+      left: 70 + Math.random() * 25,
+      drift: (Math.random() - 0.5) * 60,
+      delayMs: Math.random() * REACTION_FLUSH_MS,
+    })),
+  );
+}
+
+/**
+ * Sums taps locally and hands them to `send` at most once per `flushMs`, so a viewer mashing the
+ * heart button costs the socket two small events a second. With a schedule such as
+ * `nextAnimationFrame`, it flushes on that instead of a timer.
+ */
+export function createReactionBatcher(send: (counts: ReactionCounts) => void, flushAfter: number | ReactionFlushSchedule = REACTION_FLUSH_MS) {
+  const schedule = typeof flushAfter === 'number' ? afterDelay(flushAfter) : flushAfter;
+  let pending: ReactionCounts = {};
+  let cancel: (() => void) | undefined;
+
+  const flush = () => {
+    cancel = undefined;
+    const counts = pending;
+    pending = {};
+    if (totalReactions(counts)) {
+      send(counts);
+    }
+  };
+
+  const add = (kind: ReactionKind, count = 1) => {
+    pending[kind] = (pending[kind] ?? 0) + count;
+    cancel ??= schedule(flush);
+  };
+
+  return {
+    add,
+    /** Adds a whole batch, e.g. one relayed by the server. */
+    addCounts(counts: ReactionCounts) {
+      REACTION_KINDS.forEach((kind) => {
+        if (counts[kind]) {
+          add(kind, counts[kind]);
+        }
+      });
+    },
+    stop() {
+      cancel?.();
+      cancel = undefined;
+      pending = {};
+    },
+  };
+}
+
+/** Reactions per second over a sliding window, one bucket per second. */
+export function createReactionRate(windowSeconds = 60) {
+  const buckets = new Map<number, number>();
+
+  return {
+    add(count: number, at = Date.now()) {
+      const second = Math.floor(at / 1000);
+      buckets.set(second, (buckets.get(second) ?? 0) + count);
+    },
+    /** Oldest first, ending with the last complete second. */
+    series(now = Date.now()) {
+      const last = Math.floor(now / 1000) - 1;
+      [...buckets.keys()].filter((second) => second <= last - windowSeconds).forEach((second) => buckets.delete(second));
+      return Array.from({ length: windowSeconds }, (_, index) => buckets.get(last - windowSeconds + 1 + index) ?? 0);
+    },
+  };
+}
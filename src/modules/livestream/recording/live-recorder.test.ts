@@ -0,0 +1,73 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { createLiveRecorder } from './live-recorder';
+import { recordingDb } from './recording-db';
+
+vi.mock('./recording-db', () => ({
+  recordingDb: {
+    putMeta: vi.fn(async () => undefined),
+    appendChunk: vi.fn(async () => undefined),
+  },
+}));
+
+/** Emits one chunk and then `stop` asynchronously, like the browser's `MediaRecorder`. */
+class FakeMediaRecorder {
+  static instances: FakeMediaRecorder[] = [];
+  static isTypeSupported = () => true;
+  state: RecordingState = 'inactive';
+  ondataavailable: ((event: { data: { size: number } }) => void) | null = null;
+  onerror: ((event: unknown) => void) | null = null;
+  private stopListeners: Array<() => void> = [];
+
+  constructor() {
+    FakeMediaRecorder.instances.push(this);
+  }
+
+  start() {
+    this.state = 'recording';
+  }
+
+  pause() {
+    this.state = 'paused';
+  }
+
+  stop() {
+    setTimeout(() => {
+      this.state = 'inactive';
+      this.ondataavailable?.({ data: { size: 1 } });
+      this.stopListeners.splice(0).forEach((listener) => listener());
+    });
+  }
+
+  addEventListener(_event: 'stop', listener: () => void) {
+    this.stopListeners.push(listener);
+  }
+}
+
+const stream = { getTracks: () => [] } as unknown as MediaStream;
+
+beforeEach(() => {
+  FakeMediaRecorder.instances = [];
+  vi.mocked(recordingDb.appendChunk).mockClear();
+  vi.stubGlobal('MediaRecorder', FakeMediaRecorder);
+  vi.stubGlobal('MediaStream', class {});
+});
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+});
+
+describe('createLiveRecorder', () => {
+  it('gives two quick track replacements their own segments and stops every replaced recorder', async () => {
+    const recorder = createLiveRecorder({ roomId: 'room-1', stream });
+    await recorder.start();
+
+    await Promise.all([recorder.restartSegment(), recorder.restartSegment()]);
+
+    expect(recorder.meta?.segments).toBe(3);
+    expect(FakeMediaRecorder.instances.map(({ state }) => state)).toEqual(['inactive', 'inactive', 'recording']);
+
+    await recorder.stop();
+    const segments = vi.mocked(recordingDb.appendChunk).mock.calls.map(([chunk]) => chunk.segment);
+    expect(segments).toEqual([0, 1, 2]);
+  });
+});
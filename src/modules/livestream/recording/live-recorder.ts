@@ -0,0 +1,196 @@
+import { createEmitter } from '../../../shared/lib/emitter';
+import { recordingDb, type RecordingMeta } from './recording-db';
+
+export type RecorderState = 'inactive' | 'recording' | 'paused';
+
+export type LiveRecorderEvents = {
+  state: RecorderState;
+  /** The stored metadata changed (status, duration, timeline). */
+  meta: RecordingMeta;
+  /** A chunk or metadata write, or `MediaRecorder` itself, failed; recording has stopped. */
+  error: unknown;
+};
+
+export type LiveRecorder = ReturnType<typeof createLiveRecorder>;
+
+// MediaRecorder flushes a chunk to IndexedDB this often, which bounds what a crash can lose.
+const TIMESLICE_MS = 2000;
+const MIME_TYPES = ['video/webm;codecs=vp9,opus', 'video/webm;codecs=vp8,opus', 'video/webm', 'video/mp4'];
+
+function pickMimeType() {
+  return MIME_TYPES.find((type) => MediaRecorder.isTypeSupported(type)) ?? '';
+}
+
+/**
+ * Records the host's outgoing stream with `MediaRecorder` and stores it chunk by chunk in IndexedDB.
+ * `local-media` swaps tracks in place and `MediaRecorder` stops when its track set changes, so the
+ * page calls `restartSegment()` on `track-replaced` and the recording continues in a new file.
+ * The first failed write (e.g. storage quota) or recorder error stops the recording and is reported
+ * as `error`; what reached IndexedDB stays listed as interrupted.
+ */
+export function createLiveRecorder({ roomId, stream }: { roomId: string; stream: MediaStream }) {
+  const events = createEmitter<LiveRecorderEvents>();
+  let state: RecorderState = 'inactive';
+  let recorder: MediaRecorder | null = null;
+  let meta: RecordingMeta | null = null;
+  let pendingWrites: Array<Promise<void>> = [];
+  let accumulatedMs = 0;
+  let activeSince: number | null = null;
+  let failed = false;
+  let stopping: Promise<void> | null = null;
+  // Segment restarts run one at a time, so each claims the next index and stops the recorder it replaces.
+  let restarting: Promise<void> = Promise.resolve();
+
+  const elapsedMs = () => accumulatedMs + (activeSince === null ? 0 : Date.now() - activeSince);
+
+  const setState = (next: RecorderState) => {
+    state = next;
+    events.emit('state', state);
+  };
+
+  const saveMeta = (patch: Partial<RecordingMeta>) => {
+    if (!meta) {
+      return;
+    }
+    meta = { ...meta, ...patch, durationMs: elapsedMs() };
+    events.emit('meta', meta);
+    pendingWrites.push(recordingDb.putMeta(meta).catch(fail));
+  };
+
+  const startSegment = (recording: RecordingMeta, segment: number) => {
+    let seq = 0;
+    const next = new MediaRecorder(new MediaStream(stream.getTracks()), recording.mimeType ? { mimeType: recording.mimeType } : undefined);
+    next.ondataavailable = (event) => {
+      if (event.data.size > 0) {
+        pendingWrites.push(recordingDb.appendChunk({ recordingId: recording.id, segment, seq: seq++, blob: event.data }).catch(fail));
+      }
+    };
+    next.onerror = fail;
+    next.start(TIMESLICE_MS);
+    recorder = next;
+  };
+
+  const stopSegment = () =>
+    new Promise<void>((resolve) => {
+      if (!recorder || recorder.state === 'inactive') {
+        resolve();
+        return;
+      }
+      // The final `dataavailable` fires before `stop`.
+      recorder.addEventListener('stop', () => resolve(), { once: true });
+      recorder.stop();
+    });
+
+  const finish = () =>
+    (stopping ??= (async () => {
+      await stopSegment();
+      accumulatedMs = elapsedMs();
+      activeSince = null;
+      recorder = null;
+      if (!failed) {
+        saveMeta({ status: 'stopped' });
+      }
+      const writes = pendingWrites;
+      pendingWrites = [];
+      await Promise.all(writes);
+      stopping = null;
+      setState('inactive');
+    })());
+
+  const restartOnce = async () => {
+    if (state === 'inactive' || !meta) {
+      return;
+    }
+    await stopSegment();
+    if (failed || stopping || !meta) {
+      return;
+    }
+    const segment = meta.segments;
+    startSegment(meta, segment);
+    if (state === 'paused') {
+      recorder?.pause();
+    }
+    saveMeta({ segments: segment + 1 });
+  };
+
+  const fail = (cause: unknown) => {
+    if (failed || state === 'inactive') {
+      return;
+    }
+    failed = true;
+    events.emit('error', cause);
+    void finish();
+  };
+
+  return {
+    get state() {
+      return state;
+    },
+    get elapsedMs() {
+      return elapsedMs();
+    },
+    get meta() {
+      return meta;
+    },
+    on: events.on,
+    async start() {
+      if (state !== 'inactive') {
+        return;
+      }
+      meta = {
+        id: crypto.randomUUID(),
+        roomId,
+        mimeType: pickMimeType(),
+        startedAt: Date.now(),
+        durationMs: 0,
+        status: 'recording',
+        segments: 1,
+        timeline: [],
+      };
+      accumulatedMs = 0;
+      activeSince = Date.now();
+      failed = false;
+      await recordingDb.putMeta(meta);
+      startSegment(meta, 0);
+      setState('recording');
+      events.emit('meta', meta);
+    },
+    pause() {
+      if (state !== 'recording' || !recorder) {
+        return;
+      }
+      recorder.pause();
+      accumulatedMs = elapsedMs();
+      activeSince = null;
+      saveMeta({ status: 'paused' });
+      setState('paused');
+    },
+    resume() {
+      if (state !== 'paused' || !recorder) {
+        return;
+      }
+      recorder.resume();
+      activeSince = Date.now();
+      saveMeta({ status: 'recording' });
+      setState('recording');
+    },
+    restartSegment() {
+      const run = restarting.then(restartOnce);
+      restarting = run.catch(() => undefined);
+      return run;
+    },
+    markProduct(product: { id: number; title: string }) {
+      if (state === 'inactive' || !meta) {
+        return;
+      }
+      saveMeta({ timeline: [...meta.timeline, { atMs: elapsedMs(), productId: product.id, title: product.title }] });
+    },
+    async stop() {
+      if (state === 'inactive') {
+        return meta;
+      }
+      await finish();
+      return meta;
+    },
+  };
+}
@@ -0,0 +1,101 @@
+export type RecordingStatus = 'recording' | 'paused' | 'stopped';
+
+/** A product shared while recording, `atMs` into the recording with paused time left out. */
+export type TimelineEntry = {
+  atMs: number;
+  productId: number;
+  title: string;
+};
+
+export type RecordingMeta = {
+  id: string;
+  roomId: string;
+  mimeType: string;
+  startedAt: number;
+  durationMs: number;
+  status: RecordingStatus;
+  /** Files the recording is split into; a new one starts whenever the camera, mic or screen track changes. */
+  segments: number;
+  timeline: TimelineEntry[];
+};
+
+type ChunkRecord = {
+  recordingId: string;
+  segment: number;
+  seq: number;
+  blob: Blob;
+};
+
+const DB_NAME = 'live-recordings';
+const DB_VERSION = 1;
+const RECORDINGS = 'recordings';
+const CHUNKS = 'chunks';
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+function promisify<T>(request: IDBRequest<T>) {
+  return new Promise<T>((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+function openDb() {
+  dbPromise ??= new Promise<IDBDatabase>((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+    request.onupgradeneeded = () => {
+      const db = request.result;
+      db.createObjectStore(RECORDINGS, { keyPath: 'id' }).createIndex('roomId', 'roomId');
+      db.createObjectStore(CHUNKS, { keyPath: ['recordingId', 'segment', 'seq'] }).createIndex('recordingId', 'recordingId');
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => {
+      dbPromise = null;
+      reject(request.error);
+    };
+  });
+  return dbPromise;
+}
+
+async function store(name: typeof RECORDINGS | typeof CHUNKS, mode: IDBTransactionMode) {
+  const db = await openDb();
+  return db.transaction(name, mode).objectStore(name);
+}
+
+/**
+ * IndexedDB persistence for host recordings. Chunks are written as `MediaRecorder` hands them over,
+ * so a crashed or closed tab leaves everything up to the last few seconds on disk.
+ */
+export const recordingDb = {
+  async putMeta(meta: RecordingMeta) {
+    await promisify((await store(RECORDINGS, 'readwrite')).put(meta));
+  },
+  async appendChunk(chunk: ChunkRecord) {
+    await promisify((await store(CHUNKS, 'readwrite')).put(chunk));
+  },
+  async listByRoom(roomId: string) {
+    const metas = await promisify((await store(RECORDINGS, 'readonly')).index('roomId').getAll(roomId) as IDBRequest<RecordingMeta[]>);
+    return metas.sort((a, b) => b.startedAt - a.startedAt);
+  },
+  /** Chunks grouped by segment, each group in recording order. */
+  async readSegments(recordingId: string) {
+    const chunks = await promisify((await store(CHUNKS, 'readonly')).index('recordingId').getAll(recordingId) as IDBRequest<ChunkRecord[]>);
+    const segments: Blob[][] = [];
+    chunks
+      .sort((a, b) => a.segment - b.segment || a.seq - b.seq)
+      .forEach((chunk) => {
+        (segments[chunk.segment] ??= []).push(chunk.blob);
+      });
+    return segments.filter(Boolean);
+  },
+  async remove(recordingId: string) {
+    const db = await openDb();
+    const transaction = db.transaction([RECORDINGS, CHUNKS], 'readwrite');
+    transaction.objectStore(RECORDINGS).delete(recordingId);
+    transaction.objectStore(CHUNKS).delete(IDBKeyRange.bound([recordingId, -Infinity, -Infinity], [recordingId, Infinity, Infinity]));
+    await new Promise<void>((resolve, reject) => {
+      transaction.oncomplete = () => resolve();
+      transaction.onerror = () => reject(transaction.error);
+    });
+  },
+};
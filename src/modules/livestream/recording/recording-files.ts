@@ -0,0 +1,66 @@
+import { apiClient } from '../../../api-service/client';
+import { recordingDb, type RecordingMeta } from './recording-db';
+
+export type RecordingFile = {
+  name: string;
+  blob: Blob;
+};
+
+export type RecordingUpload = {
+  meta: RecordingMeta;
+  files: RecordingFile[];
+};
+
+/** Where finished recordings go after the host presses "Upload"; `main.tsx` installs `uploadRecordingToServer`. */
+export type RecordingUploader = (upload: RecordingUpload) => Promise<void>;
+
+let uploader: RecordingUploader | null = null;
+
+export function setRecordingUploader(next: RecordingUploader | null) {
+  uploader = next;
+}
+
+export function getRecordingUploader() {
+  return uploader;
+}
+
+// Whole recordings go up in one request, far past the API client's default 10 s timeout.
+const UPLOAD_TIMEOUT_MS = 10 * 60_000;
+
+/** Posts the recording as multipart form data to `POST /livestream/rooms/:roomId/recordings`. */
+export const uploadRecordingToServer: RecordingUploader = async ({ meta, files }) => {
+  const body = new FormData();
+  body.append('meta', JSON.stringify({ id: meta.id, startedAt: meta.startedAt, durationMs: meta.durationMs, mimeType: meta.mimeType, timeline: meta.timeline }));
+  files.forEach(({ name, blob }) => body.append('files', blob, name));
+  await apiClient.post('/livestream/rooms/{roomId}/recordings', { path: { roomId: meta.roomId }, body, timeout: UPLOAD_TIMEOUT_MS });
+};
+
+function extensionFor(mimeType: string) {
+  return mimeType.startsWith('video/mp4') ? 'mp4' : 'webm';
+}
+
+/** One playable file per segment, plus the product timeline as JSON. */
+export async function readRecordingFiles(meta: RecordingMeta): Promise<RecordingFile[]> {
+  const segments = await recordingDb.readSegments(meta.id);
+  const baseType = meta.mimeType.split(';')[0] || 'video/webm';
+  const stamp = new Date(meta.startedAt).toISOString().slice(0, 19).replace(/[:T]/g, '-');
+  const baseName = `live-${meta.roomId}-${stamp}`;
+  const files = segments.map((chunks, index) => ({
+    name: segments.length > 1 ? `${baseName}-part${index + 1}.${extensionFor(baseType)}` : `${baseName}.${extensionFor(baseType)}`,
+    blob: new Blob(chunks, { type: baseType }),
+  }));
+  if (meta.timeline.length) {
+    files.push({ name: `${baseName}-timeline.json`, blob: new Blob([JSON.stringify(meta.timeline, null, 2)], { type: 'application/json' }) });
+  }
+  return files;
+}
+
+export function downloadFile({ name, blob }: RecordingFile) {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = name;
+  link.click();
+  // Give the browser a moment to start the download before releasing the blob.
+  setTimeout(() => URL.revokeObjectURL(url), 10_000);
+}
@@ -0,0 +1,152 @@
+import type { PeerConnection } from './peer-link';
+
+export type EncodingCap = {
+  maxBitrate: number;
+  scaleResolutionDownBy: number;
+};
+
+type Tier = EncodingCap & { upToViewers: number };
+
+/** Per-viewer ceilings that shrink as the mesh grows, so the host's total uplink stays roughly flat. */
+const TIERS: Tier[] = [
+  { upToViewers: 2, maxBitrate: 2_500_000, scaleResolutionDownBy: 1 },
+  { upToViewers: 4, maxBitrate: 1_200_000, scaleResolutionDownBy: 1.5 },
+  { upToViewers: 8, maxBitrate: 600_000, scaleResolutionDownBy: 2 },
+  { upToViewers: Infinity, maxBitrate: 300_000, scaleResolutionDownBy: 3 },
+];
+
+const MIN_BITRATE = 150_000;
+const STEP_DOWN = 0.7;
+const STEP_UP = 1.1;
+const LOSS_THRESHOLD = 0.05;
+
+type SenderFeedback = {
+  packetsSent: number;
+  packetsLost: number;
+  bandwidthLimited: boolean;
+};
+
+type PeerBitrate = {
+  /** Share of the tier ceiling this viewer currently gets, lowered on loss and raised back slowly. */
+  factor: number;
+  packetsSent: number;
+  packetsLost: number;
+};
+
+export function capForViewerCount(viewerCount: number): EncodingCap {
+  const { maxBitrate, scaleResolutionDownBy } = TIERS.find((tier) => viewerCount <= tier.upToViewers) ?? TIERS[TIERS.length - 1];
+  return { maxBitrate, scaleResolutionDownBy };
+}
+
+async function readSenderFeedback(pc: PeerConnection): Promise<SenderFeedback> {
+  const feedback: SenderFeedback = { packetsSent: 0, packetsLost: 0, bandwidthLimited: false };
+  const report = await pc.getStats();
+  report.forEach((stat: { type: string; kind?: string; packetsSent?: number; packetsLost?: number; qualityLimitationReason?: string }) => {
+    if (stat.kind !== 'video') {
+      return;
+    }
+    if (stat.type === 'outbound-rtp') {
+      feedback.packetsSent += stat.packetsSent ?? 0;
+      feedback.bandwidthLimited ||= stat.qualityLimitationReason === 'bandwidth';
+    } else if (stat.type === 'remote-inbound-rtp') {
+      feedback.packetsLost += stat.packetsLost ?? 0;
+    }
+  });
+  return feedback;
+}
+
+async function applyCap(pc: PeerConnection, cap: EncodingCap) {
+  const sender = pc.getSenders().find((item) => item.track?.kind === 'video');
+  if (!sender) {
+    return;
+  }
+  const parameters = sender.getParameters();
+  // Encodings are only populated once the sender has been negotiated.
+  const [encoding] = parameters.encodings ?? [];
+  if (!encoding || (encoding.maxBitrate === cap.maxBitrate && encoding.scaleResolutionDownBy === cap.scaleResolutionDownBy)) {
+    return;
+  }
+  encoding.maxBitrate = cap.maxBitrate;
+  encoding.scaleResolutionDownBy = cap.scaleResolutionDownBy;
+  await sender.setParameters(parameters);
+}
+
+/**
+ * Adaptive video encoding for the seller's mesh fan-out. `setViewers` moves everyone to the ceiling
+ * for the new viewer count as soon as it changes; `update`, called once per stats sample, nudges
+ * each viewer below that ceiling when `getStats` reports packet loss or a bandwidth-limited encoder,
+ * and back up once the link is clean again. `setParameters` calls are queued per viewer.
+ */
+export function createBitrateControl() {
+  const peers = new Map<number, PeerBitrate>();
+  const caps = new Map<number, EncodingCap>();
+  const pendingCaps = new Map<number, Promise<void>>();
+  let viewerCount = 0;
+  let updating = false;
+
+  const prune = (connected: Map<number, PeerConnection>) => {
+    [...peers.keys(), ...caps.keys()].filter((peerId) => !connected.has(peerId)).forEach((peerId) => {
+      peers.delete(peerId);
+      caps.delete(peerId);
+      pendingCaps.delete(peerId);
+    });
+  };
+
+  const capFor = (tier: EncodingCap, factor: number): EncodingCap => ({
+    maxBitrate: Math.round(tier.maxBitrate * factor),
+    // Below half the ceiling, fewer pixels look better than a blocky full-size frame.
+    scaleResolutionDownBy: tier.scaleResolutionDownBy * (factor < 0.5 ? 2 : 1),
+  });
+
+  const apply = (peerId: number, pc: PeerConnection, cap: EncodingCap) => {
+    const next = (pendingCaps.get(peerId) ?? Promise.resolve()).then(() => applyCap(pc, cap)).then(() => {
+      caps.set(peerId, cap);
+    });
+    pendingCaps.set(peerId, next.catch(() => undefined));
+    return next;
+  };
+
+  const adapt = async (peerId: number, pc: PeerConnection, tier: EncodingCap) => {
+    const previous = peers.get(peerId) ?? { factor: 1, packetsSent: 0, packetsLost: 0 };
+    const feedback = await readSenderFeedback(pc);
+    const sent = feedback.packetsSent - previous.packetsSent;
+    const lost = feedback.packetsLost - previous.packetsLost;
+    const congested = feedback.bandwidthLimited || (sent > 0 && lost / sent > LOSS_THRESHOLD);
+    const floor = MIN_BITRATE / tier.maxBitrate;
+    const factor = congested ? Math.max(floor, previous.factor * STEP_DOWN) : Math.min(1, previous.factor * STEP_UP);
+    peers.set(peerId, { factor, packetsSent: feedback.packetsSent, packetsLost: feedback.packetsLost });
+    await apply(peerId, pc, capFor(tier, factor));
+  };
+
+  return {
+    /** Current cap per viewer, for diagnostics. */
+    get caps() {
+      return caps as ReadonlyMap<number, EncodingCap>;
+    },
+    /** A viewer connected or left: re-applies the tier at each viewer's current factor, without stepping it. */
+    async setViewers(connected: Map<number, PeerConnection>) {
+      prune(connected);
+      if (connected.size === viewerCount) {
+        return;
+      }
+      viewerCount = connected.size;
+      const tier = capForViewerCount(viewerCount);
+      await Promise.all([...connected].map(([peerId, pc]) => apply(peerId, pc, capFor(tier, peers.get(peerId)?.factor ?? 1)).catch(() => undefined)));
+    },
+    /** One step per stats sample; a sample that arrives while the previous one is still applying is skipped. */
+    async update(connected: Map<number, PeerConnection>) {
+      if (updating) {
+        return;
+      }
+      updating = true;
+      try {
+        prune(connected);
+        viewerCount = connected.size;
+        const tier = capForViewerCount(viewerCount);
+        await Promise.all([...connected].map(([peerId, pc]) => adapt(peerId, pc, tier).catch(() => undefined)));
+      } finally {
+        updating = false;
+      }
+    },
+  };
+}
@@ -0,0 +1,125 @@
+import { apiClient } from '../../../api-service/client';
+import { getAppConfig } from '../../../shared/lib/app-config';
+import { createEmitter } from '../../../shared/lib/emitter';
+
+export type IceServerOptions = {
+  /** Diagnostic mode: only TURN relay candidates are gathered, so a broken TURN setup fails loudly. */
+  relayOnly?: boolean;
+};
+
+export type SelectedCandidatePair = {
+  local: RTCIceCandidateType | null;
+  remote: RTCIceCandidateType | null;
+};
+
+export type RoomIceServers = ReturnType<typeof createRoomIceServers>;
+
+const REFRESH_RATIO = 0.8;
+const MIN_REFRESH_MS = 30_000;
+const RETRY_BASE_MS = 5_000;
+const RETRY_MAX_MS = 60_000;
+
+export function buildRtcConfiguration(iceServers: RTCIceServer[], { relayOnly = false }: IceServerOptions = {}): RTCConfiguration {
+  return { iceServers, iceTransportPolicy: relayOnly ? 'relay' : 'all' };
+}
+
+async function fetchRoomIceServers(roomId: string) {
+  try {
+    const { iceServers, ttlSeconds } = await apiClient.get('/livestream/rooms/{roomId}/ice-servers', { path: { roomId } });
+    return iceServers.length ? { iceServers, ttlSeconds } : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Per-room ICE server list. `load()` fetches it (TURN credentials included) and keeps refreshing
+ * it before the credentials expire; every new configuration is emitted as `change` for the live session.
+ */
+export function createRoomIceServers(roomId: string, initialOptions: IceServerOptions = {}) {
+  const events = createEmitter<{ change: RTCConfiguration }>();
+  let options = initialOptions;
+  let servers = getAppConfig().iceServers;
+  let configuration = buildRtcConfiguration(servers, options);
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  let stopped = false;
+  let loaded = false;
+  let failedRefreshes = 0;
+
+  const schedule = (delayMs: number) => {
+    timer = setTimeout(() => void refresh(), delayMs);
+  };
+
+  const refresh = async () => {
+    const result = await fetchRoomIceServers(roomId);
+    if (stopped) {
+      return configuration;
+    }
+    if (!result) {
+      // Older backends have no per-room endpoint, so the first load settles for the static list from
+      // config.json. A failed refresh keeps the last good TURN credentials and tries again.
+      if (loaded) {
+        failedRefreshes += 1;
+        schedule(Math.min(RETRY_BASE_MS * 2 ** (failedRefreshes - 1), RETRY_MAX_MS));
+      }
+      loaded = true;
+      return configuration;
+    }
+    loaded = true;
+    failedRefreshes = 0;
+    servers = result.iceServers;
+    configuration = buildRtcConfiguration(servers, options);
+    events.emit('change', configuration);
+    if (result.ttlSeconds) {
+      schedule(Math.max(result.ttlSeconds * 1000 * REFRESH_RATIO, MIN_REFRESH_MS));
+    }
+    return configuration;
+  };
+
+  return {
+    get configuration() {
+      return configuration;
+    },
+    on: events.on,
+    load: refresh,
+    /** Switches the transport policy over the same servers; returns false when nothing changed. */
+    setOptions(next: IceServerOptions) {
+      if (Boolean(next.relayOnly) === Boolean(options.relayOnly)) {
+        return false;
+      }
+      options = next;
+      configuration = buildRtcConfiguration(servers, options);
+      return true;
+    },
+    stop() {
+      stopped = true;
+      clearTimeout(timer);
+      events.clear();
+    },
+  };
+}
+
+/** Reads which candidate types the nominated pair ended up using (host, srflx, prflx or relay). */
+export async function readSelectedCandidatePair(pc: Pick<RTCPeerConnection, 'getStats'>): Promise<SelectedCandidatePair | null> {
+  const report = await pc.getStats();
+  let pair: RTCIceCandidatePairStats | undefined;
+  report.forEach((stat) => {
+    if (stat.type === 'transport' && stat.selectedCandidatePairId) {
+      pair = report.get(stat.selectedCandidatePairId);
+    }
+  });
+  if (!pair) {
+    report.forEach((stat) => {
+      if (stat.type === 'candidate-pair' && stat.state === 'succeeded' && stat.nominated) {
+        pair ??= stat;
+      }
+    });
+  }
+  if (!pair) {
+    return null;
+  }
+  return {
+    local: report.get(pair.localCandidateId)?.candidateType ?? null,
+    remote: report.get(pair.remoteCandidateId)?.candidateType ?? null,
+  };
+}
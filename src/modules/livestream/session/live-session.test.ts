@@ -0,0 +1,287 @@
+import { afterEach, describe, expect, it } from 'vitest';
+import type { StreamSignalMessage } from '../types';
+import { createLiveSession, type LiveSession, type LiveSessionOptions, type LiveSessionState, type PeerConnection, type SignalingSocket } from './live-session';
+
+const ROOM_ID = 'room-1';
+const SELLER_ID = 1;
+const VIEWER_ID = 2;
+
+type Handler = (payload: never) => unknown;
+
+/** Records what the session emits and lets a test play the server's side of the socket. */
+function createFakeSocket({ connected = true } = {}) {
+  const handlers = new Map<string, Set<Handler>>();
+  const emitted: Array<{ event: string; payload: unknown }> = [];
+
+  const socket = {
+    connected,
+    on(event: string, handler: Handler) {
+      const set = handlers.get(event) ?? new Set();
+      set.add(handler);
+      handlers.set(event, set);
+      return socket;
+    },
+    off(event: string, handler: Handler) {
+      handlers.get(event)?.delete(handler);
+      return socket;
+    },
+    emit(event: string, payload: unknown) {
+      emitted.push({ event, payload });
+      return socket;
+    },
+  };
+
+  return {
+    socket: socket as unknown as SignalingSocket,
+    emitted,
+    signals: () => emitted.filter(({ event }) => event === 'stream_signal').map(({ payload }) => payload as StreamSignalMessage),
+    /** Delivers a server event and waits for the (possibly async) handlers to settle. */
+    async serverEmit(event: string, payload?: unknown) {
+      await Promise.all([...(handlers.get(event) ?? [])].map((handler) => (handler as (value: unknown) => unknown)(payload)));
+    },
+    setConnected(value: boolean) {
+      socket.connected = value;
+    },
+  };
+}
+
+type FakePeerConnection = PeerConnection & {
+  addedCandidates: RTCIceCandidateInit[];
+  closed: boolean;
+  setConnectionState(state: RTCPeerConnectionState): void;
+};
+
+/** Just enough of `RTCPeerConnection` for offer/answer, candidate and connection-state handling. */
+function createFakePeerConnection(): FakePeerConnection {
+  const pc = {
+    connectionState: 'new' as RTCPeerConnectionState,
+    iceConnectionState: 'new' as RTCIceConnectionState,
+    signalingState: 'stable' as RTCSignalingState,
+    localDescription: null as RTCSessionDescription | null,
+    remoteDescription: null as RTCSessionDescription | null,
+    addedCandidates: [] as RTCIceCandidateInit[],
+    closed: false,
+    onicecandidate: null,
+    ontrack: null,
+    onnegotiationneeded: null,
+    onconnectionstatechange: null as (() => void) | null,
+    oniceconnectionstatechange: null,
+    addTrack() {
+      throw new Error('not used by these tests');
+    },
+    getSenders: () => [],
+    async setLocalDescription() {
+      const type = pc.signalingState === 'have-remote-offer' ? 'answer' : 'offer';
+      pc.localDescription = { type, sdp: `local-${type}` } as RTCSessionDescription;
+      pc.signalingState = type === 'offer' ? 'have-local-offer' : 'stable';
+    },
+    async setRemoteDescription(description: RTCSessionDescriptionInit) {
+      pc.remoteDescription = description as RTCSessionDescription;
+      pc.signalingState = description.type === 'offer' ? 'have-remote-offer' : 'stable';
+    },
+    async addIceCandidate(candidate?: RTCIceCandidateInit) {
+      if (candidate) {
+        pc.addedCandidates.push(candidate);
+      }
+    },
+    restartIce() {},
+    close() {
+      pc.closed = true;
+      pc.connectionState = 'closed';
+    },
+    getStats: async () => new Map() as unknown as RTCStatsReport,
+    setConfiguration() {},
+    setConnectionState(state: RTCPeerConnectionState) {
+      pc.connectionState = state;
+      pc.onconnectionstatechange?.();
+    },
+  };
+  return pc as unknown as FakePeerConnection;
+}
+
+const sessions: LiveSession[] = [];
+
+function setup(options: Partial<LiveSessionOptions> & Pick<LiveSessionOptions, 'role'>, socketOptions?: { connected?: boolean }) {
+  const fakeSocket = createFakeSocket(socketOptions);
+  const peerConnections: FakePeerConnection[] = [];
+  const session = createLiveSession({
+    roomId: ROOM_ID,
+    userId: options.role === 'seller' ? SELLER_ID : VIEWER_ID,
+    socket: fakeSocket.socket,
+    rtcConfiguration: () => ({ iceServers: [] }),
+    createPeerConnection: () => {
+      const pc = createFakePeerConnection();
+      peerConnections.push(pc);
+      return pc;
+    },
+    ...options,
+  });
+  const states: LiveSessionState[] = [];
+  session.on('state', ({ state }) => states.push(state));
+  sessions.push(session);
+  return { session, peerConnections, states, ...fakeSocket };
+}
+
+const fromSeller = (payload: StreamSignalMessage['payload']): StreamSignalMessage => ({ roomId: ROOM_ID, fromUserId: SELLER_ID, toUserId: VIEWER_ID, payload });
+
+const viewerJoined = (userId: number) => ({ roomId: ROOM_ID, userId, role: 'viewer' as const });
+
+afterEach(() => {
+  sessions.splice(0).forEach((session) => session.stop());
+});
+
+describe('createLiveSession state machine', () => {
+  it('walks a viewer through joining, negotiating, live, reconnecting and ended', async () => {
+    const { session, states, serverEmit, signals, peerConnections } = setup({ role: 'viewer' });
+
+    session.subscribe();
+    expect(session.state).toBe('joining');
+
+    await serverEmit('stream_signal', fromSeller({ type: 'offer', sdp: { type: 'offer', sdp: 'remote-offer' } }));
+    expect(signals().pop()?.payload).toEqual({ type: 'answer', sdp: { type: 'answer', sdp: 'local-answer' } });
+
+    peerConnections[0].setConnectionState('connected');
+    await serverEmit('disconnect');
+    session.stop();
+
+    expect(states).toEqual(['joining', 'negotiating', 'live', 'reconnecting', 'ended']);
+  });
+
+  it('waits for the socket before joining the room', async () => {
+    const { session, emitted, serverEmit, setConnected } = setup({ role: 'seller' }, { connected: false });
+
+    session.start();
+    expect(session.state).toBe('joining');
+    expect(emitted).toEqual([]);
+
+    setConnected(true);
+    await serverEmit('connect');
+    expect(session.state).toBe('live');
+    expect(emitted).toEqual([{ event: 'join_room', payload: { roomId: ROOM_ID, userId: SELLER_ID, role: 'seller' } }]);
+  });
+
+  it('fails a viewer whose negotiation throws and ignores transitions once ended', async () => {
+    const { session, states, serverEmit, peerConnections } = setup({ role: 'viewer' });
+    session.subscribe();
+    // The first signal from the seller creates the link, so its remote description can be made to fail.
+    await serverEmit('stream_signal', fromSeller({ type: 'ice-candidate', candidate: { candidate: 'early' } }));
+    peerConnections[0].setRemoteDescription = async () => {
+      throw new Error('bad sdp');
+    };
+
+    await serverEmit('stream_signal', fromSeller({ type: 'offer', sdp: { type: 'offer', sdp: 'remote-offer' } }));
+    expect(session.state).toBe('failed');
+    expect((session.error as Error).message).toBe('bad sdp');
+
+    session.stop();
+    await serverEmit('connect');
+    expect(states).toEqual(['joining', 'negotiating', 'failed', 'ended']);
+  });
+});
+
+describe('ICE candidate buffering', () => {
+  it('queues candidates that arrive before the remote description and adds them in order afterwards', async () => {
+    const { session, serverEmit, peerConnections } = setup({ role: 'viewer' });
+    session.subscribe();
+
+    await serverEmit('stream_signal', fromSeller({ type: 'ice-candidate', candidate: { candidate: 'first' } }));
+    await serverEmit('stream_signal', fromSeller({ type: 'ice-candidate', candidate: { candidate: 'second' } }));
+    const [pc] = peerConnections;
+    expect(pc.addedCandidates).toEqual([]);
+
+    await serverEmit('stream_signal', fromSeller({ type: 'offer', sdp: { type: 'offer', sdp: 'remote-offer' } }));
+    expect(pc.addedCandidates).toEqual([{ candidate: 'first' }, { candidate: 'second' }]);
+
+    await serverEmit('stream_signal', fromSeller({ type: 'ice-candidate', candidate: { candidate: 'late' } }));
+    expect(pc.addedCandidates[pc.addedCandidates.length - 1]).toEqual({ candidate: 'late' });
+  });
+
+  it('keeps the link when a single candidate cannot be added', async () => {
+    const { session, serverEmit, peerConnections } = setup({ role: 'viewer' });
+    session.subscribe();
+    await serverEmit('stream_signal', fromSeller({ type: 'offer', sdp: { type: 'offer', sdp: 'remote-offer' } }));
+    const [pc] = peerConnections;
+    pc.setConnectionState('connected');
+    pc.addIceCandidate = async () => {
+      throw new Error('unknown ufrag');
+    };
+    const candidateErrors: Array<{ peerId: number; error: unknown }> = [];
+    session.on('candidate-error', (event) => candidateErrors.push(event));
+
+    await serverEmit('stream_signal', fromSeller({ type: 'ice-candidate', candidate: { candidate: 'stale' } }));
+    expect(candidateErrors).toEqual([{ peerId: SELLER_ID, error: new Error('unknown ufrag') }]);
+    expect(pc.closed).toBe(false);
+    expect(session.state).toBe('live');
+  });
+});
+
+describe('maxPeers queue', () => {
+  it('tells viewers over the cap the room is full and admits them in arrival order as slots free up', async () => {
+    const { session, serverEmit, signals, peerConnections } = setup({ role: 'seller', maxPeers: 1 });
+    session.start();
+
+    await serverEmit('participant_joined', viewerJoined(10));
+    await serverEmit('participant_joined', viewerJoined(11));
+    await serverEmit('participant_joined', viewerJoined(12));
+    expect(peerConnections).toHaveLength(1);
+    expect(signals()).toEqual([
+      { roomId: ROOM_ID, fromUserId: SELLER_ID, toUserId: 11, payload: { type: 'room-full' } },
+      { roomId: ROOM_ID, fromUserId: SELLER_ID, toUserId: 12, payload: { type: 'room-full' } },
+    ]);
+
+    await serverEmit('participant_left', viewerJoined(10));
+    expect(peerConnections[0].closed).toBe(true);
+    expect(peerConnections).toHaveLength(2);
+
+    // A queued viewer who leaves gives up its place.
+    await serverEmit('participant_left', viewerJoined(12));
+    await serverEmit('participant_left', viewerJoined(11));
+    expect(peerConnections).toHaveLength(2);
+  });
+
+  it('reports room-full to a queued viewer until the seller offers', async () => {
+    const { session, serverEmit } = setup({ role: 'viewer' });
+    const roomFull: boolean[] = [];
+    session.on('room-full', (full) => roomFull.push(full));
+    session.subscribe();
+
+    await serverEmit('stream_signal', fromSeller({ type: 'room-full' }));
+    await serverEmit('stream_signal', fromSeller({ type: 'room-full' }));
+    await serverEmit('stream_signal', fromSeller({ type: 'offer', sdp: { type: 'offer', sdp: 'remote-offer' } }));
+    expect(roomFull).toEqual([true, false]);
+  });
+});
+
+describe('blocked peers', () => {
+  it('closes a banned viewer, ignores its joins and accepts it again once the ban is lifted', async () => {
+    const { session, serverEmit, peerConnections } = setup({ role: 'seller' });
+    session.start();
+    await serverEmit('participant_joined', viewerJoined(10));
+
+    session.setBlockedPeers([10]);
+    expect(peerConnections[0].closed).toBe(true);
+
+    await serverEmit('participant_joined', viewerJoined(10));
+    expect(peerConnections).toHaveLength(1);
+
+    session.setBlockedPeers([]);
+    await serverEmit('participant_joined', viewerJoined(10));
+    expect(peerConnections).toHaveLength(2);
+  });
+
+  it('drops a banned viewer from the maxPeers queue and hands the slot to the next one', async () => {
+    const { session, serverEmit, peerConnections } = setup({ role: 'seller', maxPeers: 1 });
+    session.start();
+    await serverEmit('participant_joined', viewerJoined(10));
+    await serverEmit('participant_joined', viewerJoined(11));
+    await serverEmit('participant_joined', viewerJoined(12));
+
+    session.setBlockedPeers([10, 11]);
+    expect(peerConnections[0].closed).toBe(true);
+    expect(peerConnections).toHaveLength(2);
+    expect(session.connectedPeerIds).toEqual([]);
+
+    peerConnections[1].setConnectionState('connected');
+    expect(session.connectedPeerIds).toEqual([12]);
+  });
+});
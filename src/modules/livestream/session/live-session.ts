@@ -0,0 +1,469 @@
+import type { Socket } from 'socket.io-client';
+import { createEmitter } from '../../../shared/lib/emitter';
+import { getRtcConfiguration } from '../../../shared/lib/app-config';
+import { createBitrateControl } from './bitrate-control';
+import { readSelectedCandidatePair, type SelectedCandidatePair } from './ice-servers';
+import { createPeerLink, type PeerConnection, type PeerLink } from './peer-link';
+import { samplePeerStats, type PeerStats, type StatsCounters } from './peer-stats';
+import type { LiveRole, MediaState, ParticipantMessage, SignalPayload, StreamSignalMessage } from '../types';
+
+export type LiveSessionState = 'idle' | 'joining' | 'negotiating' | 'live' | 'reconnecting' | 'ended' | 'failed';
+
+/** Socket events the session listens to; `connect` and `disconnect` are socket.io's own. */
+export type SignalingEvents = {
+  stream_signal: (message: StreamSignalMessage) => void;
+  participant_joined: (message: ParticipantMessage) => void;
+  participant_left: (message: ParticipantMessage) => void;
+};
+
+export type SignalingEmitEvents = {
+  join_room: (payload: Record<string, unknown> & ParticipantMessage) => void;
+  stream_signal: (message: StreamSignalMessage) => void;
+};
+
+/** The slice of a socket.io client the session needs, so tests can hand in a plain fake. */
+export type SignalingSocket = Pick<Socket<SignalingEvents, SignalingEmitEvents>, 'connected' | 'on' | 'off' | 'emit'>;
+
+export type { PeerConnection };
+
+export type PeerConnectionFactory = (configuration: RTCConfiguration) => PeerConnection;
+
+export type LiveSessionOptions = {
+  role: LiveRole;
+  roomId: string;
+  userId: number;
+  socket: SignalingSocket;
+  /** Seller only: tracks added to every viewer connection; `publish` can hand it in later instead. */
+  localStream?: MediaStream | null;
+  rtcConfiguration?: () => RTCConfiguration;
+  createPeerConnection?: PeerConnectionFactory;
+  /** Extra fields for every `join_room`, e.g. where the comment stream should resume after a reconnect. */
+  joinPayload?: () => Record<string, unknown>;
+  /** Seller only: direct viewer connections before new viewers are queued with a `room-full` notice. */
+  maxPeers?: number;
+};
+
+export type LiveSessionEvents = {
+  state: { state: LiveSessionState; previous: LiveSessionState; error?: unknown };
+  'remote-stream': MediaStream | null;
+  'peer-state': { peerId: number; state: RTCPeerConnectionState };
+  'candidate-pair': { peerId: number; pair: SelectedCandidatePair };
+  /** Periodic `getStats` reading: outbound per viewer for the seller, inbound from the seller for a viewer. */
+  'peer-stats': { peerId: number; stats: PeerStats };
+  /** Viewer only: the seller muted, turned the camera off or switched to screen share. */
+  'media-state': MediaState;
+  /** Viewer only: true while the seller is at `maxPeers` and has queued this viewer. */
+  'room-full': boolean;
+  /** Diagnostics: a remote ICE candidate was rejected and skipped; the peer itself stays up. */
+  'candidate-error': { peerId: number; error: unknown };
+};
+
+export type LiveSession = ReturnType<typeof createLiveSession>;
+
+const transitions: Record<LiveSessionState, LiveSessionState[]> = {
+  idle: ['joining', 'ended'],
+  joining: ['negotiating', 'live', 'reconnecting', 'ended', 'failed'],
+  negotiating: ['live', 'joining', 'reconnecting', 'ended', 'failed'],
+  live: ['negotiating', 'joining', 'reconnecting', 'ended', 'failed'],
+  reconnecting: ['joining', 'negotiating', 'live', 'ended', 'failed'],
+  failed: ['joining', 'negotiating', 'ended'],
+  ended: [],
+};
+
+const STATS_SAMPLE_MS = 3000;
+
+const defaultPeerConnectionFactory: PeerConnectionFactory = (configuration) => new RTCPeerConnection(configuration);
+
+/**
+ * WebRTC signalling for one room over the `stream_signal` socket channel: one peer link per viewer
+ * on the seller side, one link to the seller on the viewer side. The seller is the impolite peer.
+ * Room chat and product events stay with the page; the session only owns `join_room`, participants and peers.
+ */
+export function createLiveSession({
+  role,
+  roomId,
+  userId,
+  socket,
+  localStream = null,
+  rtcConfiguration = getRtcConfiguration,
+  createPeerConnection = defaultPeerConnectionFactory,
+  joinPayload,
+  maxPeers = Infinity,
+}: LiveSessionOptions) {
+  const events = createEmitter<LiveSessionEvents>();
+  const peers = new Map<number, PeerLink>();
+  // Viewers whose link was already rebuilt once after giving up; a second failure just drops them.
+  const rebuiltPeers = new Set<number>();
+  let state: LiveSessionState = 'idle';
+  let error: unknown = null;
+  let hostId: number | null = null;
+  let hasJoined = false;
+  let mediaState: MediaState | null = null;
+  // Seller: viewers over `maxPeers`, admitted in arrival order as slots free up.
+  let waitingViewers: number[] = [];
+  // Seller: banned viewers, whose joins are ignored.
+  let blockedPeers = new Set<number>();
+  // Viewer: whether the seller last told us the room was full.
+  let roomFull = false;
+  const bitrate = createBitrateControl();
+  const statsCounters = new Map<number, StatsCounters>();
+  let statsTimer: ReturnType<typeof setInterval> | undefined;
+
+  const setState = (next: LiveSessionState, cause?: unknown) => {
+    if (next === state || !transitions[state].includes(next)) {
+      return;
+    }
+    const previous = state;
+    state = next;
+    error = next === 'failed' ? cause : null;
+    events.emit('state', { state, previous, error: error ?? undefined });
+  };
+
+  const sendSignal = (toUserId: number, payload: SignalPayload) => {
+    socket.emit('stream_signal', { roomId, fromUserId: userId, toUserId, payload } satisfies StreamSignalMessage);
+  };
+
+  const closePeer = (peerId: number) => {
+    const link = peers.get(peerId);
+    if (!link) {
+      return;
+    }
+    link.close();
+    peers.delete(peerId);
+    statsCounters.delete(peerId);
+    events.emit('peer-state', { peerId, state: 'closed' });
+    if (role === 'viewer') {
+      events.emit('remote-stream', null);
+    } else {
+      void bitrate.setViewers(connectedPeers());
+    }
+  };
+
+  const reportCandidatePair = (peerId: number, link: PeerLink) => {
+    readSelectedCandidatePair(link.pc)
+      .then((pair) => {
+        if (pair && peers.get(peerId) === link) {
+          events.emit('candidate-pair', { peerId, pair });
+        }
+      })
+      .catch(() => undefined);
+  };
+
+  const connectedPeers = () => new Map([...peers].filter(([, link]) => link.pc.connectionState === 'connected').map(([peerId, link]) => [peerId, link.pc]));
+
+  const adaptBitrate = () => {
+    void bitrate.update(connectedPeers());
+  };
+
+  const sampleStats = () => {
+    peers.forEach((link, peerId) => {
+      samplePeerStats(link.pc, role === 'seller' ? 'outbound' : 'inbound', statsCounters.get(peerId))
+        .then(({ stats, counters }) => {
+          if (peers.get(peerId) === link) {
+            statsCounters.set(peerId, counters);
+            events.emit('peer-stats', { peerId, stats });
+          }
+        })
+        .catch(() => undefined);
+    });
+    if (role === 'seller') {
+      adaptBitrate();
+    }
+  };
+
+  const handlePeerState = (peerId: number, peerState: RTCPeerConnectionState) => {
+    const link = peers.get(peerId);
+    if (!link) {
+      return;
+    }
+    events.emit('peer-state', { peerId, state: peerState });
+    if (peerState === 'connected') {
+      reportCandidatePair(peerId, link);
+    }
+    if (role === 'seller') {
+      // A viewer joining or leaving moves everyone to a different bitrate tier right away.
+      void bitrate.setViewers(connectedPeers());
+      return;
+    }
+    if (peerState === 'connected') {
+      setState('live');
+    } else if (peerState === 'disconnected' || peerState === 'failed') {
+      setState('reconnecting');
+    }
+  };
+
+  const ensurePeer = (peerId: number) => {
+    const existing = peers.get(peerId);
+    if (existing) {
+      return existing;
+    }
+    const link = createPeerLink({
+      pc: createPeerConnection(rtcConfiguration()),
+      polite: role === 'viewer',
+      localStream,
+      sendSignal: (payload) => sendSignal(peerId, payload),
+      onTrack: (stream) => events.emit('remote-stream', stream),
+      onConnectionState: (peerState) => handlePeerState(peerId, peerState),
+      onGiveUp: (cause) => handleGiveUp(peerId, cause),
+      onCandidateError: (cause) => events.emit('candidate-error', { peerId, error: cause }),
+    });
+    peers.set(peerId, link);
+    if (role === 'seller' && mediaState) {
+      sendSignal(peerId, { type: 'media-state', media: mediaState });
+    }
+    return link;
+  };
+
+  /** The seller rebuilds a viewer's link once (its tracks trigger a fresh offer); a viewer reports failure. */
+  const handleGiveUp = (peerId: number, cause: unknown) => {
+    closePeer(peerId);
+    if (role === 'viewer') {
+      setState('failed', cause);
+      return;
+    }
+    if (!rebuiltPeers.has(peerId)) {
+      rebuiltPeers.add(peerId);
+      ensurePeer(peerId);
+      return;
+    }
+    // Dropped for good: its slot goes to the next viewer waiting under `maxPeers`.
+    admitWaitingViewers();
+  };
+
+  const linkForSignal = (fromUserId: number, payload: SignalPayload) => {
+    if (role === 'seller') {
+      return peers.get(fromUserId);
+    }
+    if (hostId !== null && hostId !== fromUserId) {
+      closePeer(hostId);
+    }
+    hostId = fromUserId;
+    if (roomFull) {
+      roomFull = false;
+      events.emit('room-full', false);
+    }
+    const link = ensurePeer(fromUserId);
+    // Renegotiating an already connected link (new tracks, ICE restart) keeps the session live.
+    if (payload.type === 'offer' && link.pc.connectionState !== 'connected') {
+      setState('negotiating');
+    }
+    return link;
+  };
+
+  const handleSignal = async ({ roomId: messageRoomId, fromUserId, toUserId, payload }: StreamSignalMessage) => {
+    const addressedToMe = role === 'seller' ? toUserId === userId : toUserId === undefined || toUserId === userId;
+    if (messageRoomId !== roomId || !addressedToMe) {
+      return;
+    }
+    if (payload.type === 'media-state') {
+      if (role === 'viewer' && payload.media) {
+        events.emit('media-state', payload.media);
+      }
+      return;
+    }
+    if (payload.type === 'room-full') {
+      if (role === 'viewer' && !roomFull) {
+        roomFull = true;
+        events.emit('room-full', true);
+      }
+      return;
+    }
+    const link = linkForSignal(fromUserId, payload);
+    try {
+      await link?.receive(payload);
+    } catch (cause) {
+      if (peers.get(fromUserId) === link) {
+        handleGiveUp(fromUserId, cause);
+      }
+    }
+  };
+
+  const handleParticipantJoined = (message: ParticipantMessage) => {
+    if (role !== 'seller' || message.roomId !== roomId || message.role !== 'viewer' || blockedPeers.has(message.userId)) {
+      return;
+    }
+    // A viewer re-emitting join_room keeps its healthy link instead of getting a duplicate offer.
+    const existing = peers.get(message.userId);
+    if (existing && existing.pc.connectionState !== 'failed' && existing.pc.connectionState !== 'closed') {
+      return;
+    }
+    closePeer(message.userId);
+    rebuiltPeers.delete(message.userId);
+    if (peers.size >= maxPeers) {
+      if (!waitingViewers.includes(message.userId)) {
+        waitingViewers.push(message.userId);
+      }
+      sendSignal(message.userId, { type: 'room-full' });
+      return;
+    }
+    ensurePeer(message.userId);
+  };
+
+  const admitWaitingViewers = () => {
+    while (waitingViewers.length && peers.size < maxPeers) {
+      const [next, ...rest] = waitingViewers;
+      waitingViewers = rest;
+      ensurePeer(next);
+    }
+  };
+
+  const handleParticipantLeft = (message: ParticipantMessage) => {
+    if (message.roomId !== roomId) {
+      return;
+    }
+    closePeer(message.userId);
+    rebuiltPeers.delete(message.userId);
+    if (role === 'seller') {
+      waitingViewers = waitingViewers.filter((peerId) => peerId !== message.userId);
+      admitWaitingViewers();
+    }
+    if (role === 'viewer' && message.userId === hostId) {
+      hostId = null;
+      setState('joining');
+    }
+  };
+
+  /**
+   * After the signalling socket recovers, the seller renegotiates every viewer: healthy links get an
+   * ICE restart, dead ones are rebuilt and links still negotiating are left to finish. A viewer with
+   * a working link stays live and waits otherwise.
+   */
+  const renegotiateAfterReconnect = () => {
+    if (role === 'seller') {
+      [...peers.entries()].forEach(([peerId, link]) => {
+        const { connectionState } = link.pc;
+        if (connectionState === 'connected') {
+          link.restart();
+        } else if (connectionState === 'failed' || connectionState === 'disconnected' || connectionState === 'closed') {
+          closePeer(peerId);
+          rebuiltPeers.delete(peerId);
+          ensurePeer(peerId);
+        }
+      });
+      return;
+    }
+    const hostLink = hostId === null ? undefined : peers.get(hostId);
+    setState(hostLink?.pc.connectionState === 'connected' ? 'live' : 'joining');
+  };
+
+  const handleConnect = () => {
+    socket.emit('join_room', { ...joinPayload?.(), roomId, userId, role });
+    if (hasJoined) {
+      renegotiateAfterReconnect();
+    }
+    hasJoined = true;
+    if (role === 'seller') {
+      setState('live');
+    } else if (state !== 'live') {
+      setState('joining');
+    }
+  };
+
+  const handleDisconnect = () => {
+    setState('reconnecting');
+  };
+
+  const start = () => {
+    if (state !== 'idle') {
+      return;
+    }
+    setState('joining');
+    socket.on('connect', handleConnect);
+    socket.on('disconnect', handleDisconnect);
+    socket.on('stream_signal', handleSignal);
+    socket.on('participant_joined', handleParticipantJoined);
+    socket.on('participant_left', handleParticipantLeft);
+    statsTimer = setInterval(sampleStats, STATS_SAMPLE_MS);
+    if (socket.connected) {
+      handleConnect();
+    }
+  };
+
+  return {
+    get state() {
+      return state;
+    },
+    get error() {
+      return error;
+    },
+    /** Seller: the video cap currently applied to each connected viewer. */
+    get bitrateCaps() {
+      return bitrate.caps;
+    },
+    /** Peers whose connection is up, the same set the bitrate tiers are chosen for. */
+    get connectedPeerIds() {
+      return [...connectedPeers().keys()];
+    },
+    on: events.on,
+    /** Pushes a refreshed ICE configuration (e.g. new TURN credentials or relay-only) to every open peer. */
+    updateConfiguration({ restartIce = false }: { restartIce?: boolean } = {}) {
+      const configuration = rtcConfiguration();
+      peers.forEach((link) => {
+        try {
+          link.pc.setConfiguration(configuration);
+        } catch {
+          // Peers keep their current servers; new ones pick the configuration up on creation.
+          return;
+        }
+        if (restartIce) {
+          link.restart();
+        }
+      });
+    },
+    /** Seller: swaps the outgoing track of the same kind on every viewer without renegotiating. */
+    async replaceTrack(track: MediaStreamTrack) {
+      await Promise.all(
+        [...peers.values()].map(({ pc }) => {
+          const sender = pc.getSenders().find((item) => item.track?.kind === track.kind);
+          return sender?.replaceTrack(track).catch(() => undefined);
+        }),
+      );
+    },
+    /** Seller: tells every viewer (and later joiners) about mute, camera-off and screen share. */
+    setMediaState(next: MediaState) {
+      mediaState = next;
+      peers.forEach((_link, peerId) => sendSignal(peerId, { type: 'media-state', media: next }));
+    },
+    /** Seller: drops banned viewers; lifting a ban takes effect on their next `join_room`. */
+    setBlockedPeers(peerIds: Iterable<number>) {
+      blockedPeers = new Set(peerIds);
+      blockedPeers.forEach((peerId) => {
+        closePeer(peerId);
+        rebuiltPeers.delete(peerId);
+      });
+      waitingViewers = waitingViewers.filter((peerId) => !blockedPeers.has(peerId));
+      admitWaitingViewers();
+    },
+    start,
+    /** Seller: joins the room and sends `stream` to every viewer (the `MediaTransport` entry point). */
+    publish(stream: MediaStream) {
+      localStream = stream;
+      start();
+    },
+    /** Viewer: joins the room and waits for the seller's offer. */
+    subscribe() {
+      start();
+    },
+    /** Viewer: re-emits `join_room` so a seller who dropped this viewer (e.g. a lifted ban) sends a new offer. */
+    rejoin() {
+      if (state !== 'idle' && state !== 'ended' && socket.connected) {
+        socket.emit('join_room', { ...joinPayload?.(), roomId, userId, role });
+      }
+    },
+    stop() {
+      if (state === 'ended') {
+        return;
+      }
+      socket.off('connect', handleConnect);
+      socket.off('disconnect', handleDisconnect);
+      socket.off('stream_signal', handleSignal);
+      socket.off('participant_joined', handleParticipantJoined);
+      socket.off('participant_left', handleParticipantLeft);
+      clearInterval(statsTimer);
+      waitingViewers = [];
+      [...peers.keys()].forEach(closePeer);
+      setState('ended');
+      events.clear();
+    },
+  };
+}
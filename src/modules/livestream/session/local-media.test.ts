@@ -0,0 +1,101 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { createLocalMedia } from './local-media';
+
+type FakeTrack = MediaStreamTrack & { stopped: boolean; deviceId: string };
+
+/** Devices that, like a phone camera, refuse to open while another track still holds the camera. */
+function createFakeDevices() {
+  const live = new Set<FakeTrack>();
+  const failing = new Set<string>();
+
+  const makeTrack = (kind: 'audio' | 'video', deviceId: string) => {
+    const track = {
+      kind,
+      deviceId,
+      enabled: true,
+      stopped: false,
+      getSettings: () => ({ deviceId }),
+      stop() {
+        track.stopped = true;
+        live.delete(track as unknown as FakeTrack);
+      },
+      addEventListener() {},
+    };
+    live.add(track as unknown as FakeTrack);
+    return track as unknown as FakeTrack;
+  };
+
+  const open = (kind: 'audio' | 'video', constraints: boolean | MediaTrackConstraints | undefined, fallbackId: string) => {
+    const exact = typeof constraints === 'object' ? (constraints.deviceId as { exact: string } | undefined)?.exact : undefined;
+    const deviceId = exact ?? fallbackId;
+    if (failing.has(deviceId) || [...live].some((track) => track.kind === kind)) {
+      throw new DOMException('Could not start video source', 'NotReadableError');
+    }
+    return makeTrack(kind, deviceId);
+  };
+
+  const getUserMedia = vi.fn(async ({ audio, video }: MediaStreamConstraints) => {
+    const tracks = [video ? open('video', video, 'front') : null, audio ? open('audio', audio, 'mic') : null].filter((track): track is FakeTrack => track !== null);
+    return {
+      getVideoTracks: () => tracks.filter((track) => track.kind === 'video'),
+      getAudioTracks: () => tracks.filter((track) => track.kind === 'audio'),
+      getTracks: () => tracks,
+    };
+  });
+
+  return { getUserMedia, failing, live };
+}
+
+class FakeMediaStream {
+  private tracks: MediaStreamTrack[] = [];
+  getTracks = () => [...this.tracks];
+  getAudioTracks = () => this.tracks.filter((track) => track.kind === 'audio');
+  addTrack = (track: MediaStreamTrack) => {
+    this.tracks.push(track);
+  };
+  removeTrack = (track: MediaStreamTrack) => {
+    this.tracks = this.tracks.filter((item) => item !== track);
+  };
+}
+
+let devices: ReturnType<typeof createFakeDevices>;
+
+beforeEach(() => {
+  devices = createFakeDevices();
+  vi.stubGlobal('MediaStream', FakeMediaStream);
+  vi.stubGlobal('navigator', { mediaDevices: { getUserMedia: devices.getUserMedia } });
+});
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+});
+
+const videoDeviceIds = (media: ReturnType<typeof createLocalMedia>) =>
+  media.stream.getTracks().filter((track) => track.kind === 'video').map((track) => (track as FakeTrack).deviceId);
+
+describe('createLocalMedia device switching', () => {
+  it('releases the current camera before opening the next one', async () => {
+    const media = createLocalMedia();
+    await media.start();
+
+    await media.switchCamera('back');
+
+    expect(videoDeviceIds(media)).toEqual(['back']);
+    expect(media.state.cameraId).toBe('back');
+  });
+
+  it('reopens the previous camera when the new one fails', async () => {
+    const media = createLocalMedia();
+    await media.start();
+    const replaced: string[] = [];
+    media.on('track-replaced', ({ track }) => replaced.push((track as FakeTrack).deviceId));
+    devices.failing.add('back');
+
+    await expect(media.switchCamera('back')).rejects.toThrow('Could not start video source');
+
+    expect(videoDeviceIds(media)).toEqual(['front']);
+    expect(media.stream.getTracks().every((track) => !(track as FakeTrack).stopped)).toBe(true);
+    expect(replaced).toEqual(['front']);
+    expect(media.state.cameraId).toBe('front');
+  });
+});
@@ -0,0 +1,163 @@
+import { createEmitter } from '../../../shared/lib/emitter';
+import type { MediaState } from '../types';
+
+export type MediaDeviceOption = {
+  deviceId: string;
+  label: string;
+};
+
+export type LocalMediaDevices = {
+  cameras: MediaDeviceOption[];
+  microphones: MediaDeviceOption[];
+};
+
+export type LocalMediaState = MediaState & {
+  cameraId: string | null;
+  microphoneId: string | null;
+};
+
+export type LocalMediaEvents = {
+  change: LocalMediaState;
+  /** A track of `kind` was swapped in the outgoing stream; peers should `replaceTrack` it. */
+  'track-replaced': { kind: 'audio' | 'video'; track: MediaStreamTrack };
+  /** A device switch the page did not start itself failed, e.g. falling back to the camera after screen share. */
+  error: unknown;
+};
+
+export type LocalMedia = ReturnType<typeof createLocalMedia>;
+
+function deviceOptions(devices: MediaDeviceInfo[], kind: MediaDeviceKind) {
+  return devices
+    .filter((device) => device.kind === kind && device.deviceId)
+    .map((device, index) => ({ deviceId: device.deviceId, label: device.label || `${kind} ${index + 1}` }));
+}
+
+/**
+ * The host's outgoing stream. It is one `MediaStream` whose tracks are swapped in place (camera,
+ * microphone, screen share), so peers created later pick up the current tracks and existing peers
+ * only need `replaceTrack`, never a renegotiation.
+ */
+export function createLocalMedia() {
+  const events = createEmitter<LocalMediaEvents>();
+  const stream = new MediaStream();
+  let state: LocalMediaState = { muted: false, cameraOff: false, source: 'camera', cameraId: null, microphoneId: null };
+
+  const update = (patch: Partial<LocalMediaState>) => {
+    state = { ...state, ...patch };
+    events.emit('change', state);
+  };
+
+  const currentTrack = (kind: 'audio' | 'video') => stream.getTracks().find((track) => track.kind === kind) ?? null;
+
+  const putTrack = (track: MediaStreamTrack) => {
+    const kind = track.kind as 'audio' | 'video';
+    const previous = currentTrack(kind);
+    if (previous) {
+      stream.removeTrack(previous);
+      previous.stop();
+    }
+    track.enabled = kind === 'audio' ? !state.muted : !state.cameraOff;
+    stream.addTrack(track);
+    events.emit('track-replaced', { kind, track });
+  };
+
+  const openDevice = async (kind: 'audio' | 'video', deviceId: string | null) => {
+    const constraints = deviceId ? { deviceId: { exact: deviceId } } : true;
+    const media = await navigator.mediaDevices.getUserMedia(kind === 'audio' ? { audio: constraints } : { video: constraints });
+    return kind === 'audio' ? media.getAudioTracks()[0] : media.getVideoTracks()[0];
+  };
+
+  /**
+   * Swaps the camera or microphone for `deviceId`. The current device is released first, because
+   * mobile browsers cannot hold two cameras open at once; if the new one fails to open, the
+   * previous device is reopened before the error is passed on.
+   */
+  const switchDevice = async (kind: 'audio' | 'video', deviceId: string | null) => {
+    const previous = currentTrack(kind);
+    // A screen-share track is not a device and cannot be reopened without a user gesture, so it stays until replaced.
+    const releasePrevious = previous && (kind === 'audio' || state.source === 'camera') ? previous : null;
+    const previousDeviceId = releasePrevious?.getSettings().deviceId ?? null;
+    releasePrevious?.stop();
+    try {
+      const track = await openDevice(kind, deviceId);
+      putTrack(track);
+      return track;
+    } catch (cause) {
+      if (releasePrevious) {
+        await openDevice(kind, previousDeviceId).then(putTrack, () => undefined);
+      }
+      throw cause;
+    }
+  };
+
+  const captureCamera = async (deviceId: string | null) => {
+    const track = await switchDevice('video', deviceId);
+    update({ source: 'camera', cameraId: track.getSettings().deviceId ?? deviceId });
+  };
+
+  return {
+    stream,
+    get state() {
+      return state;
+    },
+    on: events.on,
+    async start() {
+      const media = await navigator.mediaDevices.getUserMedia({ video: true, audio: true });
+      media.getTracks().forEach(putTrack);
+      update({
+        cameraId: media.getVideoTracks()[0]?.getSettings().deviceId ?? null,
+        microphoneId: media.getAudioTracks()[0]?.getSettings().deviceId ?? null,
+      });
+    },
+    /** Labels are only filled in once the page holds a media permission, so call this after `start()`. */
+    async listDevices(): Promise<LocalMediaDevices> {
+      const devices = await navigator.mediaDevices.enumerateDevices();
+      return { cameras: deviceOptions(devices, 'videoinput'), microphones: deviceOptions(devices, 'audioinput') };
+    },
+    async switchCamera(deviceId: string) {
+      await captureCamera(deviceId);
+    },
+    async switchMicrophone(deviceId: string) {
+      await switchDevice('audio', deviceId);
+      update({ microphoneId: deviceId });
+    },
+    async startScreenShare() {
+      const media = await navigator.mediaDevices.getDisplayMedia({ video: true });
+      const [track] = media.getVideoTracks();
+      // The browser's own "Stop sharing" button ends the track; fall back to the camera then.
+      track.addEventListener('ended', () => {
+        if (currentTrack('video') === track) {
+          captureCamera(state.cameraId).catch((cause: unknown) => events.emit('error', cause));
+        }
+      });
+      putTrack(track);
+      update({ source: 'screen' });
+    },
+    async stopScreenShare() {
+      if (state.source === 'screen') {
+        await captureCamera(state.cameraId);
+      }
+    },
+    setMuted(muted: boolean) {
+      const track = currentTrack('audio');
+      if (track) {
+        track.enabled = !muted;
+      }
+      update({ muted });
+    },
+    setCameraOff(cameraOff: boolean) {
+      const track = currentTrack('video');
+      if (track) {
+        track.enabled = !cameraOff;
+      }
+      update({ cameraOff });
+    },
+    stop() {
+      stream.getTracks().forEach((track) => {
+        track.stop();
+        stream.removeTrack(track);
+      });
+      events.clear();
+    },
+  };
+}
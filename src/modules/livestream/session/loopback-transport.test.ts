@@ -0,0 +1,136 @@
+import { afterEach, describe, expect, it } from 'vitest';
+import type { MediaState } from '../types';
+import { createLoopbackHub, type LoopbackHub } from './loopback-transport';
+import { createMediaTransport, type MediaTransport, type MediaTransportEvents } from './media-transport';
+
+const ROOM_ID = 'room-1';
+const SELLER_ID = 1;
+
+// The loopback never looks inside the stream, so a tagged object stands in for a real `MediaStream`.
+const fakeStream = (label: string) => ({ id: label }) as unknown as MediaStream;
+
+const transports: MediaTransport[] = [];
+
+function open(hub: LoopbackHub, role: 'seller' | 'viewer', userId: number, maxPeers?: number) {
+  const transport = createMediaTransport({ kind: 'loopback', hub, role, roomId: ROOM_ID, userId, maxPeers });
+  transports.push(transport);
+  return transport;
+}
+
+function record<K extends keyof MediaTransportEvents>(transport: MediaTransport, event: K) {
+  const received: Array<MediaTransportEvents[K]> = [];
+  transport.on(event, (payload) => received.push(payload));
+  return received;
+}
+
+afterEach(() => {
+  transports.splice(0).forEach((transport) => transport.stop());
+});
+
+describe('loopback MediaTransport', () => {
+  it('hands the published stream to a viewer that subscribed first and takes it back when the seller stops', () => {
+    const hub = createLoopbackHub();
+    const stream = fakeStream('camera');
+    const viewer = open(hub, 'viewer', 10);
+    const streams = record(viewer, 'remote-stream');
+    const states = record(viewer, 'state');
+
+    viewer.subscribe();
+    expect(viewer.state).toBe('joining');
+
+    const seller = open(hub, 'seller', SELLER_ID);
+    seller.publish(stream);
+    expect(seller.state).toBe('live');
+    expect(seller.connectedPeerIds).toEqual([10]);
+    expect(viewer.state).toBe('live');
+
+    seller.stop();
+    expect(streams).toEqual([stream, null]);
+    expect(states.map(({ state }) => state)).toEqual(['joining', 'live', 'joining']);
+  });
+
+  it('only connects transports that share a hub', () => {
+    const seller = open(createLoopbackHub(), 'seller', SELLER_ID);
+    const viewer = open(createLoopbackHub(), 'viewer', 10);
+    seller.publish(fakeStream('camera'));
+    viewer.subscribe();
+
+    expect(viewer.state).toBe('joining');
+    expect(seller.connectedPeerIds).toEqual([]);
+  });
+
+  it('mirrors the seller media state to subscribers', () => {
+    const hub = createLoopbackHub();
+    const seller = open(hub, 'seller', SELLER_ID);
+    const viewer = open(hub, 'viewer', 10);
+    const media = record(viewer, 'media-state');
+    const muted: MediaState = { muted: true, cameraOff: false, source: 'camera' };
+
+    seller.publish(fakeStream('camera'));
+    viewer.subscribe();
+    seller.setMediaState(muted);
+
+    expect(media).toEqual([muted]);
+  });
+
+  it('queues viewers over maxPeers and admits them in order as others leave', () => {
+    const hub = createLoopbackHub();
+    const seller = open(hub, 'seller', SELLER_ID, 1);
+    const peerStates = record(seller, 'peer-state');
+    seller.publish(fakeStream('camera'));
+    const first = open(hub, 'viewer', 10);
+    const second = open(hub, 'viewer', 11);
+    const roomFull = record(second, 'room-full');
+
+    first.subscribe();
+    second.subscribe();
+    expect(seller.connectedPeerIds).toEqual([10]);
+    expect(second.state).toBe('joining');
+    expect(roomFull).toEqual([true]);
+
+    first.stop();
+    expect(seller.connectedPeerIds).toEqual([11]);
+    expect(second.state).toBe('live');
+    expect(roomFull).toEqual([true, false]);
+    expect(peerStates).toEqual([
+      { peerId: 10, state: 'connected' },
+      { peerId: 10, state: 'closed' },
+      { peerId: 11, state: 'connected' },
+    ]);
+  });
+
+  it('cuts off blocked viewers, gives their slot away and lets them back in once unblocked', () => {
+    const hub = createLoopbackHub();
+    const seller = open(hub, 'seller', SELLER_ID, 1);
+    seller.publish(fakeStream('camera'));
+    const banned = open(hub, 'viewer', 10);
+    const waiting = open(hub, 'viewer', 11);
+    const bannedStreams = record(banned, 'remote-stream');
+    banned.subscribe();
+    waiting.subscribe();
+
+    seller.setBlockedPeers([10]);
+    expect(seller.connectedPeerIds).toEqual([11]);
+    expect(banned.state).toBe('joining');
+    expect(waiting.state).toBe('live');
+
+    seller.setBlockedPeers([]);
+    expect(seller.connectedPeerIds).toEqual([10]);
+    expect(bannedStreams.map((stream) => stream?.id ?? null)).toEqual(['camera', null, 'camera']);
+  });
+
+  it('ends once and ignores publish or subscribe afterwards', () => {
+    const hub = createLoopbackHub();
+    const viewer = open(hub, 'viewer', 10);
+    const states = record(viewer, 'state');
+
+    viewer.subscribe();
+    viewer.stop();
+    viewer.stop();
+    viewer.subscribe();
+
+    expect(viewer.state).toBe('ended');
+    expect(states.map(({ state }) => state)).toEqual(['joining', 'ended']);
+    expect(hub.subscribers(ROOM_ID)).toEqual([]);
+  });
+});
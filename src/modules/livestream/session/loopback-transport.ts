@@ -0,0 +1,187 @@
+import { createEmitter } from '../../../shared/lib/emitter';
+import type { MediaState } from '../types';
+import type { MediaTransport, MediaTransportEvents, MediaTransportOptions, MediaTransportState } from './media-transport';
+
+type Publication = {
+  userId: number;
+  stream: MediaStream;
+  media: MediaState | null;
+  maxPeers: number;
+  blockedPeers: number[];
+};
+
+type HubEvents = {
+  publication: { roomId: string; publication: Publication | null };
+  subscribers: { roomId: string; subscribers: number[] };
+};
+
+export type LoopbackHub = ReturnType<typeof createLoopbackHub>;
+
+/** In-process stand-in for the signalling server: one publication and a subscriber list per room. */
+export function createLoopbackHub() {
+  const events = createEmitter<HubEvents>();
+  const publications = new Map<string, Publication>();
+  const subscribers = new Map<string, number[]>();
+
+  return {
+    on: events.on,
+    publication(roomId: string) {
+      return publications.get(roomId) ?? null;
+    },
+    subscribers(roomId: string) {
+      return subscribers.get(roomId) ?? [];
+    },
+    publish(roomId: string, publication: Publication | null) {
+      if (publication) {
+        publications.set(roomId, publication);
+      } else {
+        publications.delete(roomId);
+      }
+      events.emit('publication', { roomId, publication });
+    },
+    setSubscribed(roomId: string, userId: number, subscribed: boolean) {
+      const next = (subscribers.get(roomId) ?? []).filter((id) => id !== userId);
+      if (subscribed) {
+        next.push(userId);
+      }
+      subscribers.set(roomId, next);
+      events.emit('subscribers', { roomId, subscribers: next });
+    },
+  };
+}
+
+type LoopbackTransportOptions = MediaTransportOptions & {
+  /** Transports only see each other through the same hub; tests and the demo page create one each. */
+  hub: LoopbackHub;
+};
+
+/**
+ * `MediaTransport` without a network: the seller's `MediaStream` is handed to subscribers in the
+ * same JavaScript context. Drives tests and the offline demo that mounts host and viewers side by side.
+ */
+export function createLoopbackTransport({ role, roomId, userId, maxPeers = Infinity, hub }: LoopbackTransportOptions): MediaTransport {
+  const events = createEmitter<MediaTransportEvents>();
+  const unsubscribers: Array<() => void> = [];
+  let state: MediaTransportState = 'idle';
+  let localStream: MediaStream | null = null;
+  let mediaState: MediaState | null = null;
+  // Viewer: what was last handed to the page, so republishing media state does not reset the player.
+  let remoteStream: MediaStream | null = null;
+  let roomFull = false;
+  // Seller: subscribers currently within `maxPeers`.
+  let connectedViewers: number[] = [];
+  let blockedPeers: number[] = [];
+
+  const setState = (next: MediaTransportState) => {
+    if (next === state || state === 'ended') {
+      return;
+    }
+    const previous = state;
+    state = next;
+    events.emit('state', { state, previous });
+  };
+
+  const refreshSubscription = () => {
+    const publication = hub.publication(roomId);
+    const blocked = publication?.blockedPeers.includes(userId) ?? false;
+    const eligible = hub.subscribers(roomId).filter((peerId) => !publication?.blockedPeers.includes(peerId));
+    const admitted = publication !== null && !blocked && eligible.indexOf(userId) < publication.maxPeers;
+    const full = publication !== null && !blocked && !admitted;
+    if (full !== roomFull) {
+      roomFull = full;
+      events.emit('room-full', full);
+    }
+    const stream = admitted ? publication.stream : null;
+    if (stream !== remoteStream) {
+      remoteStream = stream;
+      events.emit('remote-stream', stream);
+    }
+    if (admitted && publication.media) {
+      events.emit('media-state', publication.media);
+    }
+    setState(admitted ? 'live' : 'joining');
+  };
+
+  const refreshViewers = () => {
+    const admitted = hub.subscribers(roomId).filter((peerId) => !blockedPeers.includes(peerId)).slice(0, maxPeers);
+    const previous = connectedViewers;
+    connectedViewers = admitted;
+    previous.filter((peerId) => !admitted.includes(peerId)).forEach((peerId) => events.emit('peer-state', { peerId, state: 'closed' }));
+    admitted.filter((peerId) => !previous.includes(peerId)).forEach((peerId) => events.emit('peer-state', { peerId, state: 'connected' }));
+  };
+
+  const announce = () => {
+    if (localStream && state !== 'ended') {
+      hub.publish(roomId, { userId, stream: localStream, media: mediaState, maxPeers, blockedPeers });
+    }
+  };
+
+  return {
+    get state() {
+      return state;
+    },
+    get connectedPeerIds() {
+      return connectedViewers;
+    },
+    on: events.on,
+    publish(stream) {
+      if (state !== 'idle') {
+        return;
+      }
+      localStream = stream;
+      unsubscribers.push(
+        hub.on('subscribers', (event) => {
+          if (event.roomId === roomId) {
+            refreshViewers();
+          }
+        }),
+      );
+      announce();
+      refreshViewers();
+      setState('live');
+    },
+    subscribe() {
+      if (state !== 'idle') {
+        return;
+      }
+      setState('joining');
+      const onRoomEvent = (event: { roomId: string }) => {
+        if (event.roomId === roomId) {
+          refreshSubscription();
+        }
+      };
+      unsubscribers.push(hub.on('publication', onRoomEvent), hub.on('subscribers', onRoomEvent));
+      hub.setSubscribed(roomId, userId, true);
+    },
+    // The publication event already re-admits a viewer whose ban was lifted.
+    rejoin() {},
+    // Subscribers share the publisher's `MediaStream`, whose tracks are already swapped in place.
+    async replaceTrack() {},
+    setMediaState(next) {
+      mediaState = next;
+      announce();
+    },
+    setBlockedPeers(peerIds) {
+      blockedPeers = [...peerIds];
+      announce();
+      if (localStream) {
+        refreshViewers();
+      }
+    },
+    updateConfiguration() {},
+    stop() {
+      if (state === 'ended') {
+        return;
+      }
+      unsubscribers.splice(0).forEach((unsubscribe) => unsubscribe());
+      if (role === 'seller' && hub.publication(roomId)?.userId === userId) {
+        hub.publish(roomId, null);
+      }
+      if (role === 'viewer') {
+        hub.setSubscribed(roomId, userId, false);
+      }
+      setState('ended');
+      events.clear();
+    },
+  };
+}
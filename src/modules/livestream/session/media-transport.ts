@@ -0,0 +1,55 @@
+import type { Listener } from '../../../shared/lib/emitter';
+import type { LiveRole, MediaState } from '../types';
+import { createLiveSession, type LiveSessionEvents, type LiveSessionState, type SignalingSocket } from './live-session';
+import { createLoopbackTransport, type LoopbackHub } from './loopback-transport';
+
+export type MediaTransportState = LiveSessionState;
+
+export type MediaTransportEvents = LiveSessionEvents;
+
+/**
+ * What the room pages need from media distribution, independent of how streams travel. The seller
+ * `publish`es its local stream, a viewer `subscribe`s and gets `remote-stream`; state, quality and
+ * mirrored media state arrive as events. Implementations: the socket.io-signalled WebRTC mesh
+ * (`createLiveSession`) and an in-process loopback for tests and the offline demo page.
+ */
+export type MediaTransport = {
+  readonly state: MediaTransportState;
+  /** Seller: viewers with an established connection; changes are announced through `peer-state`. */
+  readonly connectedPeerIds: number[];
+  on<K extends keyof MediaTransportEvents>(event: K, listener: Listener<MediaTransportEvents[K]>): () => void;
+  publish(stream: MediaStream): void;
+  subscribe(): void;
+  /** Viewer: announces itself to the seller again, e.g. once a ban is lifted. */
+  rejoin(): void;
+  /** Seller: pushes a swapped camera, microphone or screen track to every subscriber. */
+  replaceTrack(track: MediaStreamTrack): Promise<void>;
+  setMediaState(next: MediaState): void;
+  /** Seller: closes these viewers' connections and refuses them until they are left out of a later call. */
+  setBlockedPeers(peerIds: Iterable<number>): void;
+  /**
+   * Re-reads `rtcConfiguration` (e.g. refreshed TURN credentials); `restartIce` also restarts ICE on
+   * open peers so a changed transport policy applies without reconnecting. A no-op where there is no ICE.
+   */
+  updateConfiguration(options?: { restartIce?: boolean }): void;
+  stop(): void;
+};
+
+export type MediaTransportOptions = {
+  role: LiveRole;
+  roomId: string;
+  userId: number;
+  rtcConfiguration?: () => RTCConfiguration;
+  joinPayload?: () => Record<string, unknown>;
+  maxPeers?: number;
+};
+
+type CreateMediaTransportOptions = MediaTransportOptions &
+  ({ kind: 'mesh'; socket: SignalingSocket } | { kind: 'loopback'; hub: LoopbackHub });
+
+export function createMediaTransport(options: CreateMediaTransportOptions): MediaTransport {
+  if (options.kind === 'loopback') {
+    return createLoopbackTransport(options);
+  }
+  return createLiveSession(options);
+}
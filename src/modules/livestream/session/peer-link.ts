@@ -0,0 +1,188 @@
+import type { SignalPayload } from '../types';
+
+export type PeerConnection = Pick<
+  RTCPeerConnection,
+  | 'connectionState'
+  | 'iceConnectionState'
+  | 'signalingState'
+  | 'localDescription'
+  | 'remoteDescription'
+  | 'addTrack'
+  | 'getSenders'
+  | 'setLocalDescription'
+  | 'setRemoteDescription'
+  | 'addIceCandidate'
+  | 'restartIce'
+  | 'close'
+  | 'getStats'
+  | 'setConfiguration'
+  | 'onicecandidate'
+  | 'ontrack'
+  | 'onnegotiationneeded'
+  | 'onconnectionstatechange'
+  | 'oniceconnectionstatechange'
+>;
+
+export type PeerLinkOptions = {
+  pc: PeerConnection;
+  /** The polite side rolls back its own offer on glare; the impolite side ignores the incoming one. */
+  polite: boolean;
+  localStream?: MediaStream | null;
+  sendSignal: (payload: SignalPayload) => void;
+  onTrack: (stream: MediaStream) => void;
+  onConnectionState: (state: RTCPeerConnectionState) => void;
+  /** Called once ICE restarts are exhausted or negotiation throws; the owner decides to rebuild or fail. */
+  onGiveUp: (cause: unknown) => void;
+  /** A remote candidate could not be added; the link carries on and leaves real failures to the ICE state. */
+  onCandidateError?: (cause: unknown) => void;
+};
+
+export type PeerLink = ReturnType<typeof createPeerLink>;
+
+const MAX_ICE_RESTARTS = 2;
+const DISCONNECTED_GRACE_MS = 4000;
+
+/**
+ * One `RTCPeerConnection` driven with the "perfect negotiation" pattern: offers come from
+ * `negotiationneeded` on either side, glare is settled by the polite/impolite roles, remote ICE
+ * candidates wait until a remote description exists, and a failed or stuck ICE transport is restarted.
+ */
+export function createPeerLink({ pc, polite, localStream = null, sendSignal, onTrack, onConnectionState, onGiveUp, onCandidateError }: PeerLinkOptions) {
+  let makingOffer = false;
+  let ignoreOffer = false;
+  let pendingCandidates: RTCIceCandidateInit[] = [];
+  let iceRestarts = 0;
+  let disconnectTimer: ReturnType<typeof setTimeout> | undefined;
+  let closed = false;
+
+  const restartIce = () => {
+    if (closed) {
+      return;
+    }
+    if (iceRestarts >= MAX_ICE_RESTARTS) {
+      onGiveUp(new Error('ICE restart failed'));
+      return;
+    }
+    iceRestarts += 1;
+    pc.restartIce();
+  };
+
+  const addCandidate = async (candidate: RTCIceCandidateInit) => {
+    try {
+      await pc.addIceCandidate(candidate);
+    } catch (error) {
+      // One stale (e.g. pre-`restartIce()` generation) or malformed candidate must not drop a working
+      // link; a transport that really fails shows up in `iceConnectionState` / `connectionState`.
+      // Candidates for an offer we chose to ignore are expected to fail, so those are not reported.
+      if (!ignoreOffer) {
+        onCandidateError?.(error);
+      }
+    }
+  };
+
+  const flushCandidates = async () => {
+    const queued = pendingCandidates;
+    pendingCandidates = [];
+    for (const candidate of queued) {
+      await addCandidate(candidate);
+    }
+  };
+
+  pc.onnegotiationneeded = async () => {
+    try {
+      makingOffer = true;
+      await pc.setLocalDescription();
+      if (pc.localDescription) {
+        sendSignal({ type: 'offer', sdp: pc.localDescription });
+      }
+    } catch (cause) {
+      if (!closed) {
+        onGiveUp(cause);
+      }
+    } finally {
+      makingOffer = false;
+    }
+  };
+  pc.onicecandidate = (event) => {
+    if (event.candidate) {
+      sendSignal({ type: 'ice-candidate', candidate: event.candidate.toJSON() });
+    }
+  };
+  pc.ontrack = (event) => {
+    const [stream] = event.streams;
+    if (stream) {
+      onTrack(stream);
+    }
+  };
+  pc.oniceconnectionstatechange = () => {
+    clearTimeout(disconnectTimer);
+    if (pc.iceConnectionState === 'failed') {
+      restartIce();
+    } else if (pc.iceConnectionState === 'disconnected') {
+      disconnectTimer = setTimeout(restartIce, DISCONNECTED_GRACE_MS);
+    } else if (pc.iceConnectionState === 'connected' || pc.iceConnectionState === 'completed') {
+      iceRestarts = 0;
+    }
+  };
+  pc.onconnectionstatechange = () => onConnectionState(pc.connectionState);
+
+  localStream?.getTracks().forEach((track) => pc.addTrack(track, localStream));
+
+  return {
+    pc,
+    async receive(payload: SignalPayload) {
+      if (closed) {
+        return;
+      }
+      if (payload.type === 'media-state' || payload.type === 'room-full') {
+        return;
+      }
+      if (payload.type === 'ice-candidate') {
+        if (!payload.candidate) {
+          return;
+        }
+        if (!pc.remoteDescription) {
+          pendingCandidates.push(payload.candidate);
+          return;
+        }
+        await addCandidate(payload.candidate);
+        return;
+      }
+
+      const description = payload.sdp;
+      if (!description) {
+        return;
+      }
+      const offerCollision = description.type === 'offer' && (makingOffer || pc.signalingState !== 'stable');
+      ignoreOffer = !polite && offerCollision;
+      if (ignoreOffer) {
+        return;
+      }
+      await pc.setRemoteDescription(description);
+      await flushCandidates();
+      if (description.type === 'offer') {
+        await pc.setLocalDescription();
+        if (pc.localDescription) {
+          sendSignal({ type: 'answer', sdp: pc.localDescription });
+        }
+      }
+    },
+    /** Full ICE restart on demand (e.g. after the signalling socket came back); does not count against the retry budget. */
+    restart() {
+      if (!closed) {
+        pc.restartIce();
+      }
+    },
+    close() {
+      closed = true;
+      clearTimeout(disconnectTimer);
+      pendingCandidates = [];
+      pc.onnegotiationneeded = null;
+      pc.onicecandidate = null;
+      pc.ontrack = null;
+      pc.oniceconnectionstatechange = null;
+      pc.onconnectionstatechange = null;
+      pc.close();
+    },
+  };
+}
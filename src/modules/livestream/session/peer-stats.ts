@@ -0,0 +1,134 @@
+import type { PeerConnection } from './peer-link';
+
+export type StatsDirection = 'outbound' | 'inbound';
+
+export type PeerStats = {
+  iceState: RTCIceConnectionState;
+  rttMs: number | null;
+  /** Fraction of packets lost since the previous sample (0–1). */
+  packetLoss: number | null;
+  /** Media bitrate in the sampled direction, audio and video together. */
+  bitrateKbps: number | null;
+  framesPerSecond: number | null;
+};
+
+export type StatsWarning = 'ice' | 'rtt' | 'loss' | 'fps';
+
+export type StatsQuality = 'good' | 'fair' | 'poor';
+
+/** Running totals carried between samples, since `getStats` only reports cumulative counters. */
+export type StatsCounters = {
+  bytes: number;
+  packets: number;
+  packetsLost: number;
+  timestamp: number;
+};
+
+export type PeerStatsSample = {
+  stats: PeerStats;
+  counters: StatsCounters;
+};
+
+/** Values past these are highlighted in the host's stream health table and lower a viewer's quality indicator. */
+export const STATS_THRESHOLDS = {
+  rttMs: 300,
+  packetLoss: 0.05,
+  framesPerSecond: 15,
+  /** Total host upload above which a typical home uplink starts to struggle. */
+  uploadKbps: 6000,
+};
+
+type RtcStat = {
+  type: string;
+  kind?: string;
+  timestamp: number;
+  bytesSent?: number;
+  bytesReceived?: number;
+  packetsSent?: number;
+  packetsReceived?: number;
+  packetsLost?: number;
+  framesPerSecond?: number;
+  roundTripTime?: number;
+  currentRoundTripTime?: number;
+  nominated?: boolean;
+  state?: string;
+};
+
+/**
+ * One `getStats` reading for a peer, turned into rates against the previous sample's counters.
+ * The seller reads `outbound` (what it sends each viewer), a viewer reads `inbound`.
+ */
+export async function samplePeerStats(pc: PeerConnection, direction: StatsDirection, previous?: StatsCounters): Promise<PeerStatsSample> {
+  const counters: StatsCounters = { bytes: 0, packets: 0, packetsLost: 0, timestamp: 0 };
+  let framesPerSecond: number | null = null;
+  let remoteRtt: number | null = null;
+  let pairRtt: number | null = null;
+
+  const report = await pc.getStats();
+  report.forEach((stat: RtcStat) => {
+    counters.timestamp = Math.max(counters.timestamp, stat.timestamp);
+    if (stat.type === 'candidate-pair' && stat.nominated && stat.state === 'succeeded' && stat.currentRoundTripTime !== undefined) {
+      pairRtt = stat.currentRoundTripTime * 1000;
+    } else if (direction === 'outbound' && stat.type === 'outbound-rtp') {
+      counters.bytes += stat.bytesSent ?? 0;
+      counters.packets += stat.packetsSent ?? 0;
+      if (stat.kind === 'video' && stat.framesPerSecond !== undefined) {
+        framesPerSecond = stat.framesPerSecond;
+      }
+    } else if (direction === 'outbound' && stat.type === 'remote-inbound-rtp') {
+      counters.packetsLost += stat.packetsLost ?? 0;
+      if (stat.roundTripTime !== undefined) {
+        remoteRtt = Math.max(remoteRtt ?? 0, stat.roundTripTime * 1000);
+      }
+    } else if (direction === 'inbound' && stat.type === 'inbound-rtp') {
+      counters.bytes += stat.bytesReceived ?? 0;
+      counters.packets += stat.packetsReceived ?? 0;
+      counters.packetsLost += stat.packetsLost ?? 0;
+      if (stat.kind === 'video' && stat.framesPerSecond !== undefined) {
+        framesPerSecond = stat.framesPerSecond;
+      }
+    }
+  });
+
+  let bitrateKbps: number | null = null;
+  let packetLoss: number | null = null;
+  if (previous && counters.timestamp > previous.timestamp) {
+    // bytes * 8 / milliseconds is kilobits per second.
+    bitrateKbps = Math.max(0, ((counters.bytes - previous.bytes) * 8) / (counters.timestamp - previous.timestamp));
+    const lost = Math.max(0, counters.packetsLost - previous.packetsLost);
+    const packets = Math.max(0, counters.packets - previous.packets);
+    // Inbound `packetsReceived` excludes lost packets; outbound `packetsSent` already includes them.
+    const expected = direction === 'inbound' ? packets + lost : packets;
+    packetLoss = expected > 0 ? Math.min(1, lost / expected) : 0;
+  }
+
+  return {
+    stats: { iceState: pc.iceConnectionState, rttMs: remoteRtt ?? pairRtt, packetLoss, bitrateKbps, framesPerSecond },
+    counters,
+  };
+}
+
+export function statsWarnings(stats: PeerStats): StatsWarning[] {
+  const warnings: StatsWarning[] = [];
+  if (stats.iceState === 'disconnected' || stats.iceState === 'failed') {
+    warnings.push('ice');
+  }
+  if (stats.rttMs !== null && stats.rttMs > STATS_THRESHOLDS.rttMs) {
+    warnings.push('rtt');
+  }
+  if (stats.packetLoss !== null && stats.packetLoss > STATS_THRESHOLDS.packetLoss) {
+    warnings.push('loss');
+  }
+  if (stats.framesPerSecond !== null && stats.framesPerSecond < STATS_THRESHOLDS.framesPerSecond) {
+    warnings.push('fps');
+  }
+  return warnings;
+}
+
+export function statsQuality(stats: PeerStats): StatsQuality {
+  const warnings = statsWarnings(stats);
+  if (warnings.includes('ice') || warnings.length >= 2) {
+    return 'poor';
+  }
+  return warnings.length ? 'fair' : 'good';
+}
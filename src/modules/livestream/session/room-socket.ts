@@ -0,0 +1,98 @@
+import { io, type Socket } from 'socket.io-client';
+import { getAppConfig } from '../../../shared/lib/app-config';
+import { createEmitter } from '../../../shared/lib/emitter';
+
+export type SocketStatus = 'connecting' | 'connected' | 'reconnecting' | 'offline' | 'closed';
+
+export type RoomSocketStatus = {
+  status: SocketStatus;
+  /** Reconnect attempt in progress (1-based), 0 while connected. */
+  attempt: number;
+  /** True once the socket has connected at least once, so the UI can tell a first connect from a recovery. */
+  recovered: boolean;
+};
+
+export type RoomSocket = ReturnType<typeof createRoomSocket>;
+
+export type SocketListeners = Record<string, (payload: never) => void>;
+
+// socket.io doubles the delay per attempt (1s, 2s, 4s ... capped at 15s, ±50% jitter).
+const RECONNECT_DELAY_MS = 1000;
+const RECONNECT_DELAY_MAX_MS = 15_000;
+const RECONNECT_ATTEMPTS = 10;
+
+/**
+ * socket.io connection for a room page with exponential-backoff reconnection and a status stream
+ * for the connection banner. After `RECONNECT_ATTEMPTS` it reports `offline` until `retry()` or the
+ * browser comes back online.
+ */
+export function createRoomSocket(url = getAppConfig().livestreamSocketUrl) {
+  const socket = io(url, {
+    transports: ['websocket'],
+    reconnectionDelay: RECONNECT_DELAY_MS,
+    reconnectionDelayMax: RECONNECT_DELAY_MAX_MS,
+    reconnectionAttempts: RECONNECT_ATTEMPTS,
+    randomizationFactor: 0.5,
+  });
+  const events = createEmitter<{ status: RoomSocketStatus }>();
+  let status: RoomSocketStatus = { status: 'connecting', attempt: 0, recovered: false };
+  let hasConnected = false;
+
+  const update = (next: Omit<RoomSocketStatus, 'recovered'>) => {
+    status = { ...next, recovered: hasConnected };
+    events.emit('status', status);
+  };
+
+  const retry = () => {
+    if (!socket.connected) {
+      update({ status: 'reconnecting', attempt: 1 });
+      socket.connect();
+    }
+  };
+
+  socket.on('connect', () => {
+    update({ status: 'connected', attempt: 0 });
+    hasConnected = true;
+  });
+  socket.on('disconnect', (reason) => {
+    if (reason === 'io server disconnect') {
+      // socket.io does not reconnect after the server closed the connection, so offer the manual retry.
+      update({ status: 'offline', attempt: 0 });
+    } else if (reason !== 'io client disconnect') {
+      update({ status: 'reconnecting', attempt: 0 });
+    }
+  });
+  socket.io.on('reconnect_attempt', (attempt) => update({ status: 'reconnecting', attempt }));
+  socket.io.on('reconnect_failed', () => update({ status: 'offline', attempt: 0 }));
+  window.addEventListener('online', retry);
+
+  return {
+    socket,
+    get status() {
+      return status;
+    },
+    on: events.on,
+    retry,
+    /** Development aid: drops the transport the way a network blip would, so socket.io reconnects on its own. */
+    simulateDisconnect() {
+      socket.io.engine?.close();
+    },
+    /** Tears the socket down; listeners get a final `closed` status before they are dropped. */
+    close() {
+      window.removeEventListener('online', retry);
+      update({ status: 'closed', attempt: 0 });
+      events.clear();
+      socket.disconnect();
+    },
+  };
+}
+
+/**
+ * Binds every listener in `listenersRef` to `socket`, looking each one up on delivery so the socket
+ * calls the handlers from the page's latest render rather than the ones it was created with.
+ */
+export function bindSocketListeners(socket: Socket, listenersRef: { readonly current: SocketListeners }) {
+  Object.keys(listenersRef.current).forEach((event) => {
+    socket.on(event, (payload: unknown) => (listenersRef.current[event] as (payload: unknown) => void)(payload));
+  });
+}
@@ -0,0 +1,34 @@
+export type LiveRole = 'seller' | 'viewer';
+
+export type MediaSourceKind = 'camera' | 'screen';
+
+/** What the seller is sending, mirrored to viewers so they can explain a black or silent player. */
+export type MediaState = {
+  muted: boolean;
+  cameraOff: boolean;
+  source: MediaSourceKind;
+};
+
+/**
+ * Body of a `stream_signal` message. Besides SDP and ICE candidates, the seller uses it to send its
+ * `media-state` to each viewer and `room-full` to viewers queued beyond `maxPeers`.
+ */
+export type SignalPayload = {
+  type: 'offer' | 'answer' | 'ice-candidate' | 'media-state' | 'room-full';
+  sdp?: RTCSessionDescriptionInit;
+  candidate?: RTCIceCandidateInit;
+  media?: MediaState;
+};
+
+export type StreamSignalMessage = {
+  roomId: string;
+  fromUserId: number;
+  toUserId?: number;
+  payload: SignalPayload;
+};
+
+export type ParticipantMessage = {
+  roomId: string;
+  userId: number;
+  role?: LiveRole;
+};
@@ -25,10 +25,20 @@ import {
 } from '@chakra-ui/react';
 import { useEffect, useMemo, useRef, useState } from 'react';
 import { useForm } from 'react-hook-form';
+import { useNavigate, useSearchParams } from 'react-router-dom';
 import * as THREE from 'three';
 import { z } from 'zod';
-import type { components } from '../../../api-service/generated/schema';
-import { api } from '../../../shared/lib/api-client';
+import { apiClient } from '../../../api-service/client';
+import { paths, sanitizeReturnTo, toAbsoluteUrl } from '../../../app/routes';
+import type { Product, RoomStatus } from '../../../api-service/models';
+import { messageKey, type MessageKey } from '../../../shared/i18n/i18n';
+import LocaleSwitcher from '../../../shared/i18n/LocaleSwitcher';
+import { useTranslation } from '../../../shared/i18n/use-translation';
+import { isFeatureEnabled } from '../../../shared/lib/app-config';
+import { applyServerFieldErrors } from '../../../shared/lib/form-errors';
+import { loginSchema, registerSchema, type LoginFormValues, type RegisterFormValues } from '../../../shared/schemas/auth.schema';
+import { useRegistration } from '../../../shared/session/use-registration';
+import { useSession } from '../../../shared/session/use-session';
 import { useAppStore } from '../../../shared/store/app-store';
 
 declare global {
@@ -40,72 +50,39 @@ declare global {
   }
 }
 
-type Product = components['schemas']['ProductDto'];
-type RoomSummary = {
-  id: string;
-  title: string;
-  status: 'active' | 'ended';
-  sellerId?: number;
-  viewerCount?: number;
-};
-
-type AuthResponse = {
-  user: { id: number; email: string };
-  accessToken: string;
-  refreshToken: string;
-};
-
 type ThemeMode = 'aurora' | 'ember';
 type DrawerMode = 'login' | 'register' | 'livestream';
 
-const authSchema = z.object({
-  email: z.string().email('Email không hợp lệ'),
-  password: z.string().min(6, 'Mật khẩu tối thiểu 6 ký tự'),
-});
-
-const registerSchema = z
-  .object({
-    email: z.string().email('Email không hợp lệ'),
-    password: z.string().min(6, 'Mật khẩu tối thiểu 6 ký tự'),
-    confirmPassword: z.string().min(6, 'Xác nhận mật khẩu tối thiểu 6 ký tự'),
-  })
-  .refine((values) => values.password === values.confirmPassword, {
-    path: ['confirmPassword'],
-    message: 'Mật khẩu xác nhận không khớp',
-  });
-
 const livestreamSchema = z.object({
-  roomId: z.string().min(5, 'Room ID không hợp lệ'),
+  roomId: z.string().min(5, messageKey('validation.roomIdInvalid')),
   role: z.enum(['viewer', 'seller']),
 });
 const createRoomSchema = z.object({
-  title: z.string().min(3, 'Tên phòng tối thiểu 3 ký tự'),
+  title: z.string().min(3, messageKey('validation.roomTitleMin')),
 });
 
-const statusLabel: Record<Product['status'], string> = {
-  DRAFT: 'Nháp',
-  LIVE: 'Đang live',
-  ACTIVE: 'Đang bán',
-  OUT_OF_STOCK: 'Hết hàng',
-  ARCHIVED: 'Lưu trữ',
+const roomStatusColor: Record<RoomStatus, string> = {
+  scheduled: 'yellow',
+  active: 'green',
+  ended: 'red',
 };
 
-const themeConfig: Record<ThemeMode, { bg: string; panel: string; card: string; accent: string; title: string; subtitle: string }> = {
+const themeConfig: Record<ThemeMode, { bg: string; panel: string; card: string; accent: string; title: MessageKey; subtitle: MessageKey }> = {
   aurora: {
     bg: '#050811',
     panel: 'rgba(11, 16, 28, 0.86)',
     card: 'rgba(10, 18, 32, 0.95)',
     accent: '#22d3ee',
-    title: 'Template động Aurora',
-    subtitle: 'Hiệu ứng chuyển động mượt cho không gian live-commerce.',
+    title: 'showcase.aurora.title',
+    subtitle: 'showcase.aurora.subtitle',
   },
   ember: {
     bg: '#120708',
     panel: 'rgba(32, 10, 13, 0.86)',
     card: 'rgba(27, 11, 14, 0.96)',
     accent: '#fb7185',
-    title: 'Template động Ember',
-    subtitle: 'Tông ấm nổi bật sản phẩm và CTA trong livestream.',
+    title: 'showcase.ember.title',
+    subtitle: 'showcase.ember.subtitle',
   },
 };
 
@@ -161,6 +138,7 @@ function ProductTiltCard({
   const ref = useRef<HTMLDivElement | null>(null);
   const [tilt, setTilt] = useState({ rx: 0, ry: 0 });
   const [visible, setVisible] = useState(false);
+  const { t, money } = useTranslation();
 
   useEffect(() => {
     if (!ref.current) {
@@ -217,7 +195,7 @@ function ProductTiltCard({
           {product.title}
         </Text>
         <Badge colorScheme="cyan" borderRadius="full" variant="outline">
-          {statusLabel[product.status]}
+          {t(`product.status.${product.status}`)}
         </Badge>
       </Flex>
       <Text mt={1} fontSize="sm" color="whiteAlpha.700" noOfLines={2}>
@@ -225,10 +203,10 @@ function ProductTiltCard({
       </Text>
       <Flex mt={4} align="center" justify="space-between">
         <Text fontSize="2xl" fontWeight="bold" color={accent}>
-          ${product.price.toFixed(2)}
+          {money(product.price)}
         </Text>
         <Button size="sm" borderRadius="full" onClick={onJoinLive}>
-          Xem trong live
+          {t('showcase.viewInLive')}
         </Button>
       </Flex>
     </Box>
@@ -240,22 +218,24 @@ export default function FramerPreviewPage() {
   const [messageFromFlutter, setMessageFromFlutter] = useState<string>('');
   const [drawerMode, setDrawerMode] = useState<DrawerMode>('register');
   const [isDrawerOpen, setIsDrawerOpen] = useState(false);
-  const [pendingApprovalEmail, setPendingApprovalEmail] = useState<string | null>(null);
-  const [loggedInEmail, setLoggedInEmail] = useState<string | null>(null);
-  const [accessToken, setAccessToken] = useState<string | null>(null);
+  const { isAuthenticated, email: loggedInEmail, login, logout } = useSession();
+  const navigate = useNavigate();
+  const [searchParams] = useSearchParams();
+  const returnTo = sanitizeReturnTo(searchParams.get('returnTo'));
   const rooms = useAppStore((state) => state.rooms);
   const addRoom = useAppStore((state) => state.addRoom);
+  const { t, tm } = useTranslation();
 
   const productsQuery = useQuery({
     queryKey: ['three-products'],
-    queryFn: async () => (await api.get<Product[]>('/products')).data,
+    queryFn: () => apiClient.get('/products'),
   });
 
-  const authForm = useForm<z.infer<typeof authSchema>>({
-    resolver: zodResolver(authSchema),
+  const authForm = useForm<LoginFormValues>({
+    resolver: zodResolver(loginSchema),
     defaultValues: { email: 'demo@shop.local', password: '123456' },
   });
-  const registerForm = useForm<z.infer<typeof registerSchema>>({
+  const registerForm = useForm<RegisterFormValues>({
     resolver: zodResolver(registerSchema),
     defaultValues: { email: '', password: '', confirmPassword: '' },
   });
@@ -265,12 +245,13 @@ export default function FramerPreviewPage() {
   });
   const createRoomForm = useForm<z.infer<typeof createRoomSchema>>({
     resolver: zodResolver(createRoomSchema),
-    defaultValues: { title: 'Livestream sản phẩm' },
+    defaultValues: { title: t('room.defaultTitle') },
   });
 
   useEffect(() => {
-    setAccessToken(localStorage.getItem('accessToken'));
-    setLoggedInEmail(localStorage.getItem('authEmail'));
+    if (!isFeatureEnabled('flutterBridge')) {
+      return;
+    }
 
     window.receiveFromFlutter = (rawMessage: string) => {
       try {
@@ -290,55 +271,47 @@ export default function FramerPreviewPage() {
     setIsDrawerOpen(true);
   };
 
+  useEffect(() => {
+    if (searchParams.get('auth') === 'login' && !isAuthenticated) {
+      openDrawer('login');
+    }
+  }, [searchParams, isAuthenticated]);
+
   const loginMutation = useMutation({
-    mutationFn: async (values: z.infer<typeof authSchema>) => (await api.post<AuthResponse>('/auth/login', values)).data,
-    onSuccess: (data) => {
-      localStorage.setItem('accessToken', data.accessToken);
-      localStorage.setItem('refreshToken', data.refreshToken);
-      localStorage.setItem('authEmail', data.user.email);
-      setAccessToken(data.accessToken);
-      setLoggedInEmail(data.user.email);
+    mutationFn: login,
+    onSuccess: () => {
       setIsDrawerOpen(false);
+      if (returnTo) {
+        navigate(returnTo, { replace: true });
+      }
     },
   });
+  const { registerMutation, pendingApproval } = useRegistration(registerForm, () => setIsDrawerOpen(false));
   const createRoomMutation = useMutation({
-    mutationFn: async (values: z.infer<typeof createRoomSchema>) =>
-      (await api.post<RoomSummary>('/livestream/rooms', values)).data,
+    mutationFn: (values: z.infer<typeof createRoomSchema>) =>
+      apiClient.post('/livestream/rooms', { body: values }),
     onSuccess: (room) => {
       addRoom({ id: room.id, title: room.title, status: room.status });
       livestreamForm.setValue('roomId', room.id);
-      createRoomForm.reset({ title: 'Livestream sản phẩm' });
+      createRoomForm.reset({ title: t('room.defaultTitle') });
+    },
+    onError: (error) => {
+      applyServerFieldErrors(createRoomForm, error, ['title']);
     },
+    meta: { inlineValidation: true },
   });
 
-  const submitRegister = (values: z.infer<typeof registerSchema>) => {
-    setPendingApprovalEmail(values.email);
-    registerForm.reset();
-    setIsDrawerOpen(false);
+  const openRoom = (roomId: string, role: 'viewer' | 'seller') => {
+    navigate(role === 'seller' ? paths.hostRoom(roomId) : paths.joinRoom(roomId));
   };
-
   const submitLivestream = (values: z.infer<typeof livestreamSchema>) => {
-    const route = values.role === 'seller' ? '/host-room' : '/join-room';
-    window.open(`${route}/${encodeURIComponent(values.roomId)}`, '_blank', 'noopener,noreferrer');
-  };
-  const openRoom = (roomId: string, role: 'viewer' | 'seller') => {
-    const route = role === 'seller' ? '/host-room' : '/join-room';
-    window.open(`${route}/${encodeURIComponent(roomId)}`, '_blank', 'noopener,noreferrer');
+    openRoom(values.roomId, values.role);
   };
   const copyRoomLink = async (roomId: string) => {
-    await navigator.clipboard.writeText(`${window.location.origin}/join-room/${roomId}`);
+    await navigator.clipboard.writeText(toAbsoluteUrl(paths.joinRoom(roomId)));
   };
 
   const activeTheme = themeConfig[themeMode];
-  const isAuthenticated = Boolean(accessToken);
-
-  const logout = () => {
-    localStorage.removeItem('accessToken');
-    localStorage.removeItem('refreshToken');
-    localStorage.removeItem('authEmail');
-    setAccessToken(null);
-    setLoggedInEmail(null);
-  };
 
   return (
     <Box minH="100vh" bg={activeTheme.bg} color="white">
@@ -349,25 +322,38 @@ export default function FramerPreviewPage() {
               Live Commerce • ThreeJS
             </Text>
             <Text fontSize="xs" color="whiteAlpha.700">
-              Giao diện động không dùng Framer
+              {t('showcase.tagline')}
             </Text>
           </Box>
           <Flex gap={2} wrap="wrap">
             {isAuthenticated ? (
-              <Button size="sm" borderRadius="full" variant="outline" onClick={logout}>
-                Đăng xuất
-              </Button>
+              <Flex gap={2} align="center">
+                {loggedInEmail ? (
+                  <Text fontSize="xs" color="whiteAlpha.700">
+                    {loggedInEmail}
+                  </Text>
+                ) : null}
+                <Button size="sm" borderRadius="full" variant="outline" onClick={() => navigate(paths.dashboard())}>
+                  {t('common.dashboard')}
+                </Button>
+                <Button size="sm" borderRadius="full" variant="outline" onClick={logout}>
+                  {t('common.logout')}
+                </Button>
+              </Flex>
             ) : null}
             <Button size="sm" borderRadius="full" colorScheme="cyan" onClick={() => openDrawer('livestream')}>
-              Livestream
-            </Button>
-            <Button
-              size="sm"
-              borderRadius="full"
-              onClick={() => setThemeMode((prev) => (prev === 'aurora' ? 'ember' : 'aurora'))}
-            >
-              Theme: {themeMode === 'aurora' ? 'Aurora' : 'Ember'}
+              {t('showcase.livestream')}
             </Button>
+            {isFeatureEnabled('showcaseThemeSwitch') ? (
+              <Button
+                size="sm"
+                borderRadius="full"
+                onClick={() => setThemeMode((prev) => (prev === 'aurora' ? 'ember' : 'aurora'))}
+              >
+                {t('showcase.theme', { name: themeMode === 'aurora' ? 'Aurora' : 'Ember' })}
+              </Button>
+            ) : null}
+            <LocaleSwitcher className="rounded-full border border-white/30 bg-transparent px-3 py-1 text-xs text-white [&>option]:bg-slate-900" />
           </Flex>
         </Flex>
       </Box>
@@ -375,16 +361,16 @@ export default function FramerPreviewPage() {
       <Box maxW="1280px" mx="auto" px={{ base: 4, md: 8 }} py={{ base: 6, md: 10 }}>
         {!isAuthenticated ? (
           <Box mb={6} p={{ base: 6, md: 8 }} borderRadius="20px" border="1px solid" borderColor="whiteAlpha.300" bg={activeTheme.panel}>
-            <Heading fontSize={{ base: '2xl', md: '4xl' }}>Chào mừng đến Live Commerce</Heading>
+            <Heading fontSize={{ base: '2xl', md: '4xl' }}>{t('showcase.welcomeTitle')}</Heading>
             <Text mt={3} color="whiteAlpha.800" maxW="2xl">
-              Bạn cần đăng nhập để sử dụng đầy đủ tính năng. Chọn một trong hai tùy chọn bên dưới để tiếp tục.
+              {t('showcase.welcomeDescription')}
             </Text>
             <Flex mt={5} gap={3} wrap="wrap">
               <Button size="lg" colorScheme="teal" onClick={() => openDrawer('login')}>
-                Đăng nhập
+                {t('common.login')}
               </Button>
               <Button size="lg" variant="outline" onClick={() => openDrawer('register')}>
-                Đăng ký
+                {t('common.register')}
               </Button>
             </Flex>
           </Box>
@@ -401,27 +387,27 @@ export default function FramerPreviewPage() {
           />
           <Box position="absolute" left={{ base: 5, md: 8 }} bottom={{ base: 6, md: 8 }} maxW={{ base: '92%', md: '620px' }} bg={activeTheme.panel} border="1px solid" borderColor="whiteAlpha.300" borderRadius="20px" p={{ base: 5, md: 8 }}>
             <Heading fontSize={{ base: '2xl', md: '5xl' }} lineHeight={1.05}>
-              {activeTheme.title}
+              {t(activeTheme.title)}
             </Heading>
             <Text mt={3} color="whiteAlpha.800" fontSize={{ base: 'sm', md: 'lg' }}>
-              {activeTheme.subtitle}
+              {t(activeTheme.subtitle)}
             </Text>
             <Flex mt={5} gap={3} wrap="wrap">
               <Button colorScheme="cyan" onClick={() => openDrawer('livestream')}>
-                Tham gia phiên live
+                {t('showcase.joinLive')}
               </Button>
               {!isAuthenticated ? (
                 <Button variant="outline" onClick={() => openDrawer('register')}>
-                  Đăng ký người bán
+                  {t('auth.registerSeller')}
                 </Button>
               ) : null}
             </Flex>
           </Box>
         </Box>
 
-        {pendingApprovalEmail && (
+        {pendingApproval && !isAuthenticated && (
           <Box mt={4} borderRadius="12px" bg="orange.400" color="white" px={4} py={3} fontSize="sm">
-            {pendingApprovalEmail} đã đăng ký với trạng thái <Text as="span" fontWeight="bold">PENDING_APPROVAL</Text>.
+            {t('auth.pendingApproval', { email: pendingApproval.email })} <Text as="span" fontWeight="bold">PENDING_APPROVAL</Text>.
           </Box>
         )}
 
@@ -429,12 +415,12 @@ export default function FramerPreviewPage() {
           <Flex justify="space-between" align="end" mb={4}>
             <Box>
               <Text fontSize="xs" letterSpacing="0.2em" textTransform="uppercase" color={activeTheme.accent}>
-                Product Feed
+                {t('showcase.productFeed')}
               </Text>
-              <Heading size={{ base: 'md', md: 'lg' }}>Sản phẩm đang mở bán</Heading>
+              <Heading size={{ base: 'md', md: 'lg' }}>{t('showcase.productsOnSale')}</Heading>
             </Box>
             <Text fontSize="xs" color="whiteAlpha.700">
-              Tổng: {(productsQuery.data ?? []).length}
+              {t('showcase.productTotal', { count: (productsQuery.data ?? []).length })}
             </Text>
           </Flex>
 
@@ -449,17 +435,17 @@ export default function FramerPreviewPage() {
           <Flex justify="space-between" align={{ base: 'start', md: 'end' }} direction={{ base: 'column', md: 'row' }} gap={3}>
             <Box>
               <Text fontSize="xs" letterSpacing="0.2em" textTransform="uppercase" color={activeTheme.accent}>
-                Livestream Rooms
+                {t('showcase.livestreamRooms')}
               </Text>
-              <Heading size={{ base: 'md', md: 'lg' }}>Tạo phòng và tham gia nhanh</Heading>
+              <Heading size={{ base: 'md', md: 'lg' }}>{t('showcase.roomsTitle')}</Heading>
             </Box>
           </Flex>
 
           <Stack mt={4} spacing={3}>
             <FormControl isInvalid={Boolean(createRoomForm.formState.errors.title)}>
-              <FormLabel>Tên phòng</FormLabel>
-              <Input placeholder="Tên phòng livestream" {...createRoomForm.register('title')} />
-              <FormErrorMessage>{createRoomForm.formState.errors.title?.message}</FormErrorMessage>
+              <FormLabel>{t('showcase.roomTitleLabel')}</FormLabel>
+              <Input placeholder={t('showcase.roomTitlePlaceholder')} {...createRoomForm.register('title')} />
+              <FormErrorMessage>{tm(createRoomForm.formState.errors.title?.message)}</FormErrorMessage>
             </FormControl>
             <Flex gap={3} wrap="wrap">
               <Button
@@ -468,11 +454,11 @@ export default function FramerPreviewPage() {
                 isLoading={createRoomMutation.isPending}
                 isDisabled={!isAuthenticated}
               >
-                Tạo phòng mới
+                {t('showcase.createRoom')}
               </Button>
               {!isAuthenticated ? (
                 <Text fontSize="sm" color="orange.200">
-                  Bạn cần đăng nhập để tạo phòng.
+                  {t('showcase.loginToCreateRoom')}
                 </Text>
               ) : null}
             </Flex>
@@ -485,20 +471,20 @@ export default function FramerPreviewPage() {
                   <Text fontWeight="semibold" noOfLines={1}>
                     {room.title}
                   </Text>
-                  <Badge colorScheme={room.status === 'active' ? 'green' : 'red'}>{room.status}</Badge>
+                  <Badge colorScheme={roomStatusColor[room.status]}>{t(`room.status.${room.status}`)}</Badge>
                 </Flex>
                 <Text mt={1} fontSize="xs" color="whiteAlpha.700" noOfLines={1}>
                   {room.id}
                 </Text>
                 <Flex mt={3} gap={2} wrap="wrap">
                   <Button size="sm" onClick={() => openRoom(room.id, 'seller')}>
-                    Host
+                    {t('showcase.host')}
                   </Button>
                   <Button size="sm" variant="outline" onClick={() => openRoom(room.id, 'viewer')}>
-                    Join
+                    {t('showcase.join')}
                   </Button>
                   <Button size="sm" variant="ghost" onClick={() => void copyRoomLink(room.id)}>
-                    Copy link
+                    {t('showcase.copyLink')}
                   </Button>
                 </Flex>
               </Box>
@@ -513,7 +499,7 @@ export default function FramerPreviewPage() {
           <DrawerBody p={6}>
             <Flex align="center" justify="space-between">
               <Heading size="md">
-                {drawerMode === 'login' ? 'Đăng nhập' : drawerMode === 'register' ? 'Đăng ký người bán' : 'Tham gia livestream'}
+                {drawerMode === 'login' ? t('common.login') : drawerMode === 'register' ? t('auth.registerSeller') : t('showcase.joinLivestream')}
               </Heading>
               <CloseButton onClick={() => setIsDrawerOpen(false)} />
             </Flex>
@@ -521,56 +507,60 @@ export default function FramerPreviewPage() {
             {drawerMode === 'login' ? (
               <Stack mt={5} spacing={3}>
                 <FormControl isInvalid={Boolean(authForm.formState.errors.email)}>
-                  <FormLabel>Email</FormLabel>
-                  <Input placeholder="Email" {...authForm.register('email')} />
-                  <FormErrorMessage>{authForm.formState.errors.email?.message}</FormErrorMessage>
+                  <FormLabel>{t('common.email')}</FormLabel>
+                  <Input placeholder={t('common.email')} {...authForm.register('email')} />
+                  <FormErrorMessage>{tm(authForm.formState.errors.email?.message)}</FormErrorMessage>
                 </FormControl>
                 <FormControl isInvalid={Boolean(authForm.formState.errors.password)}>
-                  <FormLabel>Mật khẩu</FormLabel>
-                  <Input type="password" placeholder="Mật khẩu" {...authForm.register('password')} />
-                  <FormErrorMessage>{authForm.formState.errors.password?.message}</FormErrorMessage>
+                  <FormLabel>{t('common.password')}</FormLabel>
+                  <Input type="password" placeholder={t('common.password')} {...authForm.register('password')} />
+                  <FormErrorMessage>{tm(authForm.formState.errors.password?.message)}</FormErrorMessage>
                 </FormControl>
                 <Button colorScheme="teal" onClick={authForm.handleSubmit((values) => loginMutation.mutate(values))} isLoading={loginMutation.isPending}>
-                  Đăng nhập
+                  {t('common.login')}
                 </Button>
               </Stack>
             ) : drawerMode === 'register' ? (
               <Stack mt={5} spacing={3}>
                 <FormControl isInvalid={Boolean(registerForm.formState.errors.email)}>
-                  <FormLabel>Email</FormLabel>
-                  <Input placeholder="Email" {...registerForm.register('email')} />
-                  <FormErrorMessage>{registerForm.formState.errors.email?.message}</FormErrorMessage>
+                  <FormLabel>{t('common.email')}</FormLabel>
+                  <Input placeholder={t('common.email')} {...registerForm.register('email')} />
+                  <FormErrorMessage>{tm(registerForm.formState.errors.email?.message)}</FormErrorMessage>
                 </FormControl>
                 <FormControl isInvalid={Boolean(registerForm.formState.errors.password)}>
-                  <FormLabel>Mật khẩu</FormLabel>
-                  <Input type="password" placeholder="Mật khẩu" {...registerForm.register('password')} />
-                  <FormErrorMessage>{registerForm.formState.errors.password?.message}</FormErrorMessage>
+                  <FormLabel>{t('common.password')}</FormLabel>
+                  <Input type="password" placeholder={t('common.password')} {...registerForm.register('password')} />
+                  <FormErrorMessage>{tm(registerForm.formState.errors.password?.message)}</FormErrorMessage>
                 </FormControl>
                 <FormControl isInvalid={Boolean(registerForm.formState.errors.confirmPassword)}>
-                  <FormLabel>Xác nhận mật khẩu</FormLabel>
-                  <Input type="password" placeholder="Xác nhận mật khẩu" {...registerForm.register('confirmPassword')} />
-                  <FormErrorMessage>{registerForm.formState.errors.confirmPassword?.message}</FormErrorMessage>
+                  <FormLabel>{t('common.confirmPassword')}</FormLabel>
+                  <Input type="password" placeholder={t('common.confirmPassword')} {...registerForm.register('confirmPassword')} />
+                  <FormErrorMessage>{tm(registerForm.formState.errors.confirmPassword?.message)}</FormErrorMessage>
                 </FormControl>
-                <Button colorScheme="cyan" onClick={registerForm.handleSubmit(submitRegister)}>
-                  Gửi đăng ký
+                <Button
+                  colorScheme="cyan"
+                  onClick={registerForm.handleSubmit((values) => registerMutation.mutate(values))}
+                  isLoading={registerMutation.isPending}
+                >
+                  {t('showcase.registerSubmit')}
                 </Button>
               </Stack>
             ) : (
               <Stack mt={5} spacing={3}>
                 <FormControl isInvalid={Boolean(livestreamForm.formState.errors.roomId)}>
-                  <FormLabel>Mã phòng</FormLabel>
-                  <Input placeholder="Ví dụ: ls-abc-123" {...livestreamForm.register('roomId')} />
-                  <FormErrorMessage>{livestreamForm.formState.errors.roomId?.message}</FormErrorMessage>
+                  <FormLabel>{t('showcase.roomIdLabel')}</FormLabel>
+                  <Input placeholder={t('showcase.roomIdPlaceholder')} {...livestreamForm.register('roomId')} />
+                  <FormErrorMessage>{tm(livestreamForm.formState.errors.roomId?.message)}</FormErrorMessage>
                 </FormControl>
                 <FormControl>
-                  <FormLabel>Vai trò</FormLabel>
+                  <FormLabel>{t('showcase.roleLabel')}</FormLabel>
                   <Select {...livestreamForm.register('role')}>
-                    <option value="viewer">Người xem</option>
-                    <option value="seller">Người bán</option>
+                    <option value="viewer">{t('showcase.roleViewer')}</option>
+                    <option value="seller">{t('showcase.roleSeller')}</option>
                   </Select>
                 </FormControl>
                 <Button colorScheme="cyan" onClick={livestreamForm.handleSubmit(submitLivestream)}>
-                  Mở trang phòng live
+                  {t('showcase.openRoom')}
                 </Button>
               </Stack>
             )}
@@ -583,26 +573,28 @@ export default function FramerPreviewPage() {
           <Text textAlign="center" fontSize="xs" color="whiteAlpha.600">
             2026 Live Commerce 3D.
           </Text>
-          <Flex justify="center" gap={2} align="center">
-            <Button
-              size="xs"
-              variant="outline"
-              onClick={() =>
-                window.FlutterChannel?.postMessage(
-                  JSON.stringify({
-                    source: 'react',
-                    type: 'ping_from_react',
-                    payload: { timestamp: Date.now() },
-                  }),
-                )
-              }
-            >
-              Gửi tín hiệu Flutter
-            </Button>
-            <Text fontSize="11px" color="whiteAlpha.600">
-              Flutter phản hồi: {messageFromFlutter || 'chưa có'}
-            </Text>
-          </Flex>
+          {isFeatureEnabled('flutterBridge') ? (
+            <Flex justify="center" gap={2} align="center">
+              <Button
+                size="xs"
+                variant="outline"
+                onClick={() =>
+                  window.FlutterChannel?.postMessage(
+                    JSON.stringify({
+                      source: 'react',
+                      type: 'ping_from_react',
+                      payload: { timestamp: Date.now() },
+                    }),
+                  )
+                }
+              >
+                {t('showcase.flutterPing')}
+              </Button>
+              <Text fontSize="11px" color="whiteAlpha.600">
+                {t('showcase.flutterReply', { message: messageFromFlutter || t('common.none') })}
+              </Text>
+            </Flex>
+          ) : null}
         </Grid>
       </Box>
     </Box>
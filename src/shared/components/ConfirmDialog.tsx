@@ -0,0 +1,35 @@
+type ConfirmDialogProps = {
+  open: boolean;
+  title: string;
+  description?: string;
+  confirmLabel: string;
+  cancelLabel: string;
+  isPending?: boolean;
+  onConfirm: () => void;
+  onCancel: () => void;
+};
+
+export default function ConfirmDialog({ open, title, description, confirmLabel, cancelLabel, isPending, onConfirm, onCancel }: ConfirmDialogProps) {
+  if (!open) {
+    return null;
+  }
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-slate-950/60 p-4" role="dialog" aria-modal="true" aria-labelledby="confirm-dialog-title">
+      <div className="w-full max-w-sm rounded-2xl bg-white p-5 shadow-xl">
+        <h2 id="confirm-dialog-title" className="text-lg font-semibold">
+          {title}
+        </h2>
+        {description && <p className="mt-2 text-sm text-slate-600">{description}</p>}
+        <div className="mt-5 flex justify-end gap-2">
+          <button className="rounded-md border px-3 py-2 text-sm" onClick={onCancel} disabled={isPending}>
+            {cancelLabel}
+          </button>
+          <button className="rounded-md bg-rose-600 px-3 py-2 text-sm text-white disabled:opacity-60" onClick={onConfirm} disabled={isPending}>
+            {confirmLabel}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
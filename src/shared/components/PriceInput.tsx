@@ -0,0 +1,65 @@
+import { forwardRef, useEffect, useState } from 'react';
+import { useTranslation } from '../i18n/use-translation';
+import { DEFAULT_CURRENCY, formatMoneyInput, parseMoney, type Currency } from '../lib/money';
+
+type PriceInputProps = {
+  value: number | undefined;
+  onChange: (value: number | undefined) => void;
+  onBlur?: () => void;
+  name?: string;
+  currency?: Currency;
+  className?: string;
+  placeholder?: string;
+};
+
+function toText(value: number | undefined, options: Parameters<typeof formatMoneyInput>[1]) {
+  return value === undefined ? '' : formatMoneyInput(value, options);
+}
+
+/**
+ * Text field for prices typed the way the current locale writes numbers. Emits the parsed
+ * amount, or `undefined` while the text is not a valid price (the field is then marked invalid
+ * so the form schema's required-number message applies), and reformats the text on blur.
+ */
+const PriceInput = forwardRef<HTMLInputElement, PriceInputProps>(function PriceInput(
+  { value, onChange, onBlur, name, currency = DEFAULT_CURRENCY, className, placeholder },
+  ref,
+) {
+  const { locale } = useTranslation();
+  const [text, setText] = useState(() => toText(value, { currency, locale }));
+  const [isEditing, setIsEditing] = useState(false);
+  const [isInvalid, setIsInvalid] = useState(false);
+
+  useEffect(() => {
+    // Invalid text stays as typed so the user can correct it, until the form sets a new amount.
+    if (!isEditing && (!isInvalid || value !== undefined)) {
+      setText(toText(value, { currency, locale }));
+      setIsInvalid(false);
+    }
+  }, [value, currency, locale, isEditing, isInvalid]);
+
+  return (
+    <input
+      ref={ref}
+      name={name}
+      className={`${className ?? ''} ${isInvalid ? 'border-rose-500 focus:outline-rose-500' : ''}`}
+      aria-invalid={isInvalid}
+      placeholder={placeholder}
+      inputMode="decimal"
+      value={text}
+      onFocus={() => setIsEditing(true)}
+      onChange={(event) => {
+        const amount = parseMoney(event.target.value, { currency, locale });
+        setText(event.target.value);
+        setIsInvalid(amount === null && event.target.value.trim() !== '');
+        onChange(amount ?? undefined);
+      }}
+      onBlur={() => {
+        setIsEditing(false);
+        onBlur?.();
+      }}
+    />
+  );
+});
+
+export default PriceInput;
@@ -0,0 +1,24 @@
+import type { ReactNode } from 'react';
+
+type StatusScreenProps = {
+  eyebrow: string;
+  title: string;
+  description?: string;
+  actions?: ReactNode;
+};
+
+export default function StatusScreen({ eyebrow, title, description, actions }: StatusScreenProps) {
+  return (
+    <div className="flex min-h-screen items-center justify-center bg-[#030712] p-4 text-white">
+      <div className="max-w-md rounded-2xl border border-white/20 bg-slate-950/75 p-6 text-center">
+        <p className="text-xs font-semibold uppercase tracking-[0.18em] text-cyan-200">{eyebrow}</p>
+        <h1 className="mt-2 text-2xl font-semibold">{title}</h1>
+        {description && <p className="mt-2 text-sm text-slate-300">{description}</p>}
+        {actions && <div className="mt-5 flex justify-center gap-2">{actions}</div>}
+      </div>
+    </div>
+  );
+}
+
+export const statusPrimaryActionClass = 'rounded-md bg-cyan-500 px-3 py-2 text-sm font-semibold text-slate-950';
+export const statusSecondaryActionClass = 'rounded-md border border-cyan-300/40 px-3 py-2 text-sm font-semibold text-cyan-100';
@@ -0,0 +1,25 @@
+import { locales, type Locale } from './i18n';
+import { useTranslation } from './use-translation';
+
+type LocaleSwitcherProps = {
+  className?: string;
+};
+
+export default function LocaleSwitcher({ className }: LocaleSwitcherProps) {
+  const { t, locale, setLocale } = useTranslation();
+
+  return (
+    <select
+      aria-label={t('common.language')}
+      className={className ?? 'rounded-md border px-2 py-1 text-xs'}
+      value={locale}
+      onChange={(event) => setLocale(event.target.value as Locale)}
+    >
+      {(Object.keys(locales) as Locale[]).map((code) => (
+        <option key={code} value={code}>
+          {locales[code].label}
+        </option>
+      ))}
+    </select>
+  );
+}
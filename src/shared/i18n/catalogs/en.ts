@@ -0,0 +1,325 @@
+import type { Catalog } from '../i18n';
+
+export const en: Catalog = {
+  'common.loading': 'Loading...',
+  'common.home': 'Back to home',
+  'common.dashboard': 'Dashboard',
+  'common.logout': 'Log out',
+  'common.login': 'Log in',
+  'common.register': 'Sign up',
+  'common.close': 'Close',
+  'common.send': 'Send',
+  'common.cancel': 'Cancel',
+  'common.email': 'Email',
+  'common.password': 'Password',
+  'common.confirmPassword': 'Confirm password',
+  'common.error': 'Error',
+  'common.retry': 'Try again',
+  'common.none': 'none yet',
+  'common.language': 'Language',
+
+  'validation.emailInvalid': 'Invalid email address',
+  'validation.passwordMin': 'Password must be at least 6 characters',
+  'validation.confirmPasswordMin': 'Password confirmation must be at least 6 characters',
+  'validation.passwordMismatch': 'Passwords do not match',
+  'validation.productTitleMin': 'Product name is too short',
+  'validation.productDescriptionMin': 'Description must be at least 5 characters',
+  'validation.pricePositive': 'Price must be greater than 0',
+  'validation.priceInvalid': 'Enter a valid price',
+  'validation.imageUrlInvalid': 'Image URL is invalid',
+  'validation.roomTitleMin': 'Room name must be at least 3 characters',
+  'validation.roomIdInvalid': 'Invalid room ID',
+
+  'errors.network': 'Cannot reach the server. Check your connection and try again.',
+  'errors.timeout': 'The server took too long to respond. Please try again.',
+  'errors.validation': 'The submitted data is invalid.',
+  'errors.auth': 'Your session is invalid or you do not have permission.',
+  'errors.notFound': 'The requested data was not found.',
+  'errors.server': 'The server is having trouble. Please try again later.',
+  'errors.unknown': 'Something went wrong',
+  'errors.title.network': 'Connection lost',
+  'errors.title.timeout': 'Request timed out',
+  'errors.title.validation': 'Invalid data',
+  'errors.title.auth': 'Authentication error',
+  'errors.title.notFound': 'Not found',
+  'errors.title.server': 'Server error',
+  'errors.title.unknown': 'Something went wrong',
+  'errors.pendingApproval': 'Account {email} is still waiting for admin approval.',
+
+  'notFound.title': 'Page not found',
+  'notFound.description': 'This link does not exist or has changed.',
+
+  'auth.pendingApproval': '{email} signed up with status',
+  'auth.registerSeller': 'Seller sign-up',
+
+  'product.status.DRAFT': 'Draft',
+  'product.status.LIVE': 'Live',
+  'product.status.ACTIVE': 'On sale',
+  'product.status.OUT_OF_STOCK': 'Out of stock',
+  'product.status.ARCHIVED': 'Archived',
+
+  'order.placed': 'Order placed. Order #{id}',
+  'order.source.LIVE': 'Livestream',
+  'order.source.STORE': 'Store',
+  'order.status.PENDING': 'Pending',
+  'order.status.CONFIRMED': 'Confirmed',
+  'order.status.PROCESSING': 'Processing',
+  'order.status.SHIPPED': 'Shipped',
+  'order.status.DELIVERED': 'Delivered',
+  'order.status.CANCELED': 'Canceled',
+
+  'chat.loading': 'Loading recent messages...',
+  'chat.empty': 'No comments yet. Say hello!',
+  'chat.guest': 'Guest #{id}',
+  'chat.sellerBadge': 'Seller',
+  'chat.newMessages': { one: '{count} new message', other: '{count} new messages' },
+  'chat.blockedWord': 'Your message contains a blocked word: "{word}"',
+  'chat.report': 'Report',
+  'chat.reported': 'Reported',
+  'chat.reports': { one: '{count} report', other: '{count} reports' },
+  'chat.delete': 'Delete',
+  'chat.timeout': 'Time out',
+  'chat.ban': 'Ban',
+  'chat.hidden.deleted': 'Message removed by the host',
+  'chat.hidden.banned': 'Message from a banned user',
+  'chat.hidden.filtered': 'Hidden by the chat filter',
+  'chat.banned': 'You have been banned from this live chat.',
+  'chat.timedOut': 'The host has timed you out. You can chat again when the countdown ends.',
+  'chat.wait': 'Wait {seconds}s',
+  'chat.slowModeHint': 'Slow mode: one message every {seconds}s',
+
+  'moderation.title': 'Chat moderation',
+  'moderation.slowMode': 'Slow mode',
+  'moderation.slowModeOff': 'Off',
+  'moderation.slowModeSeconds': 'Every {seconds}s',
+  'moderation.blockedWords': 'Blocked words',
+  'moderation.blockedWordsPlaceholder': 'Separate words or links with commas',
+  'moderation.saveWords': 'Save words',
+  'moderation.banned': 'Banned',
+  'moderation.timedOutUntil': 'Timed out until {time}',
+  'moderation.lift': 'Lift',
+
+  'qa.title': 'Pins & Q&A',
+  'qa.pin': 'Pin',
+  'qa.unpin': 'Unpin',
+  'qa.pinned': 'Pinned',
+  'qa.announcementPlaceholder': 'Pin an announcement for all viewers...',
+  'qa.question': 'Question',
+  'qa.answered': 'Answered',
+  'qa.askAsQuestion': 'Ask as a question for the host',
+  'qa.openCount': { one: '{count} open question', other: '{count} open questions' },
+  'qa.answeredCount': { one: '{count} answered', other: '{count} answered' },
+  'qa.empty': 'No open questions.',
+  'qa.markAnswered': 'Mark answered',
+  'qa.reopen': 'Reopen',
+  'qa.showOnScreen': 'Show on screen',
+  'qa.hideFromScreen': 'Hide from screen',
+
+  'reactions.heart': 'Love it',
+  'reactions.fire': 'Fire',
+  'reactions.clap': 'Applause',
+  'reactions.buy': 'Buying now',
+  'reactions.rate': 'Reactions: {value}/s',
+  'reactions.peak': 'Peak {value}/s',
+  'reactions.sparklineLabel': 'Reactions per second over the last minute',
+
+  'room.label': 'Room: {roomId}',
+  'room.viewerCount': { one: '{count} viewer', other: '{count} viewers' },
+  'room.liveComments': 'Live comments',
+  'room.commentPlaceholder': 'Write a comment...',
+  'room.defaultTitle': 'Product livestream',
+  'room.guard.notFoundTitle': 'This livestream room does not exist',
+  'room.guard.loadFailedTitle': 'Could not load the room',
+  'room.guard.profileFailedTitle': 'Could not check your account',
+  'room.guard.profileFailedDescription': 'The host console opens once we know this room is yours. Check your connection and try again.',
+  'room.guard.forbiddenEyebrow': 'No access',
+  'room.guard.forbiddenTitle': 'You do not own this room',
+  'room.guard.forbiddenDescription': 'Only the seller who created the room can open its host console. You can still watch as a viewer.',
+  'room.guard.endedEyebrow': 'Ended',
+  'room.guard.endedTitle': 'This live show has ended',
+  'room.watchLive': 'Watch live',
+  'room.status.scheduled': 'Not started',
+  'room.status.active': 'Live',
+  'room.status.ended': 'Ended',
+
+  'host.title': 'Livestream console',
+  'host.onlineViewers': { one: '{count} viewer online', other: '{count} viewers online' },
+  'host.shareTitle': 'Feature a product in the live',
+  'host.selectProduct': 'Choose a product',
+  'host.shareProduct': 'Push product to live',
+  'host.viewerRoute': 'Viewer #{peerId}',
+  'host.directPeers': '{count}/{max} direct connections',
+  'host.connectFailed': 'Could not connect to the room.',
+  'host.endLive': 'End live',
+  'host.endLiveConfirmTitle': 'End this live?',
+  'host.endLiveConfirmDescription': 'Viewers will be disconnected and this live cannot be reopened.',
+
+  'preflight.title': 'Pre-flight check',
+  'preflight.hint': 'Only you can see this preview. Check your camera and microphone, then press "Go live".',
+  'preflight.micLevel': 'Microphone level',
+  'preflight.goLive': 'Go live',
+  'preflight.startFailed': 'Could not start the live. Please try again.',
+
+  'media.camera': 'Camera',
+  'media.microphone': 'Microphone',
+  'media.mute': 'Mute',
+  'media.unmute': 'Unmute',
+  'media.cameraOff': 'Turn camera off',
+  'media.cameraOn': 'Turn camera on',
+  'media.shareScreen': 'Share screen',
+  'media.stopScreenShare': 'Stop sharing',
+  'media.deviceError': 'Could not open the device. Check permissions and try again.',
+  'media.hostMuted': 'The seller is muted',
+  'media.hostCameraOff': 'The seller turned the camera off',
+  'media.hostSharingScreen': 'Sharing screen',
+
+  'viewer.title': 'Watch livestream',
+  'viewer.online': { one: 'Online: {count} viewer', other: 'Online: {count} viewers' },
+  'viewer.joinFailed': 'Could not join the room, or the room has ended.',
+  'viewer.notStarted': 'This live has not started yet',
+  'viewer.notStartedHint': 'The player connects automatically once the seller goes live.',
+  'viewer.roomFull': 'This live is at capacity',
+  'viewer.roomFullHint': 'You are in the queue; the video starts automatically when a spot frees up.',
+  'viewer.banned': 'You have been removed from this live',
+  'viewer.bannedHint': 'The host has banned you from the video and chat.',
+  'viewer.featuredProducts': 'Featured products',
+  'viewer.buyNow': 'Buy now on live',
+
+  'live.state.idle': 'Not connected',
+  'live.state.joining': 'Joining room',
+  'live.state.negotiating': 'Connecting video',
+  'live.state.live': 'Live',
+  'live.state.reconnecting': 'Reconnecting',
+  'live.state.ended': 'Ended',
+  'live.state.failed': 'Connection failed',
+
+  'demo.title': 'Loopback demo',
+  'demo.hint': 'Host and viewers run in this tab over the in-process loopback transport, with no backend, socket or media server.',
+  'demo.host': 'Host',
+  'demo.viewer': 'Viewer #{id}',
+  'demo.addViewer': 'Add viewer',
+  'demo.removeViewer': 'Remove',
+
+  'connection.connecting': 'Connecting to the livestream server...',
+  'connection.reconnecting': 'Connection lost, reconnecting...',
+  'connection.reconnectingAttempt': 'Connection lost, retrying (attempt {attempt})...',
+  'connection.offline': 'Cannot reach the livestream server.',
+  'connection.retry': 'Retry',
+  'connection.restored': 'Reconnected.',
+  'connection.simulateDisconnect': 'Simulate disconnect',
+
+  'replay.watch': 'Watch replay',
+  'replay.eyebrow': 'Livestream replay',
+  'replay.notAvailableTitle': 'No replay is available for this live',
+  'replay.loadFailedTitle': 'Could not load the replay',
+  'replay.chapters': 'Product chapters',
+  'replay.comments': 'Comments',
+  'replay.noProductsYet': 'Products appear when the video reaches the moment the seller shared them.',
+  'replay.buy': 'Buy now',
+  'replay.jumpTo': 'Jump to {time}',
+
+  'recording.title': 'Recording',
+  'recording.start': 'Start recording',
+  'recording.pause': 'Pause',
+  'recording.resume': 'Resume',
+  'recording.stop': 'Stop recording',
+  'recording.startFailed': 'This browser cannot record the stream.',
+  'recording.stopFailed': 'Could not finish the recording. Please try again.',
+  'recording.writeFailed': 'Recording stopped: the browser could not save it (storage may be full). What was saved is listed below.',
+  'recording.liveOnly': 'Recording is available while you are live.',
+  'recording.products': { one: '{count} product on the timeline', other: '{count} products on the timeline' },
+  'recording.interrupted': 'Interrupted, recovered up to the last saved chunk',
+  'recording.download': 'Download',
+  'recording.upload': 'Upload',
+  'recording.uploading': 'Uploading...',
+  'recording.uploaded': 'Uploaded.',
+  'recording.uploadFailed': 'Upload failed. Please try again.',
+  'recording.downloadFailed': 'Could not read this recording from the browser storage.',
+  'recording.deleteFailed': 'Could not delete this recording. Please try again.',
+  'recording.failed': 'Recording stopped because of an error. What was saved so far is kept.',
+  'recording.delete': 'Delete',
+
+  'health.title': 'Stream health',
+  'health.totalUpload': 'Total upload: {value}',
+  'health.uploadWarning': 'Upload usage is very high and viewers may freeze. Lower the number of direct viewers or switch to a steadier network.',
+  'health.noViewers': 'No viewers connected yet.',
+  'health.viewer': 'Viewer',
+  'health.ice': 'ICE',
+  'health.rtt': 'RTT',
+  'health.loss': 'Loss',
+  'health.bitrate': 'Bitrate',
+  'health.fps': 'FPS',
+  'health.details': 'RTT {rtt} · loss {loss} · {bitrate} · {fps} fps',
+  'health.quality.good': 'Good connection',
+  'health.quality.fair': 'Fair connection',
+  'health.quality.poor': 'Poor connection',
+
+  'ice.route': 'Route: {type}',
+  'ice.pending': 'detecting',
+  'ice.relayOnly': 'Diagnostics: TURN relay only',
+  'ice.candidate.host': 'local network (host)',
+  'ice.candidate.srflx': 'direct through NAT (srflx)',
+  'ice.candidate.prflx': 'direct (prflx)',
+  'ice.candidate.relay': 'TURN relay (relay)',
+
+  'dashboard.heroBadge': 'AI + Live Commerce',
+  'dashboard.heroTitle': 'Client portal with restored Three.js effects',
+  'dashboard.heroDescription': 'Log in to create live sessions and manage products. Sign-ups open in a drawer and wait for approval so they stay in sync with the admin CMS.',
+  'dashboard.loginTitle': 'Sign in',
+  'dashboard.openRegister': 'Create a new account',
+  'dashboard.registerHint': 'After submitting, the account stays PENDING_APPROVAL until an admin approves it in the CMS.',
+  'dashboard.registerSubmit': 'Submit for approval',
+  'dashboard.title': 'Seller dashboard',
+  'dashboard.createProduct': 'Create product',
+  'dashboard.productTitle': 'Product name',
+  'dashboard.productDescription': 'Description',
+  'dashboard.productPrice': 'Price',
+  'dashboard.productImageUrl': 'Image URL',
+  'dashboard.saveProduct': 'Save product',
+  'dashboard.createRoom': 'Create livestream room',
+  'dashboard.roomTitle': 'Live room name',
+  'dashboard.createRoomSubmit': 'Create room',
+  'dashboard.roomId': 'ID: {id}',
+  'dashboard.hostLive': 'Go live',
+  'dashboard.copyLink': 'Copy link',
+  'dashboard.productsOnSale': 'Products on sale',
+  'dashboard.productStatus': 'Status: {status}',
+  'dashboard.buyNow': 'Buy now',
+  'dashboard.recentOrders': 'Recent orders',
+  'dashboard.orderTotal': 'Total: {total}',
+  'dashboard.orderRoom': '(room: {roomId})',
+
+  'showcase.tagline': 'Motion UI without Framer',
+  'showcase.livestream': 'Livestream',
+  'showcase.theme': 'Theme: {name}',
+  'showcase.aurora.title': 'Aurora motion template',
+  'showcase.aurora.subtitle': 'Smooth motion effects for live-commerce spaces.',
+  'showcase.ember.title': 'Ember motion template',
+  'showcase.ember.subtitle': 'Warm tones that make products and CTAs stand out on live.',
+  'showcase.welcomeTitle': 'Welcome to Live Commerce',
+  'showcase.welcomeDescription': 'Log in to use every feature. Pick one of the options below to continue.',
+  'showcase.joinLive': 'Join a live session',
+  'showcase.productFeed': 'Product Feed',
+  'showcase.productsOnSale': 'Products on sale',
+  'showcase.productTotal': { one: 'Total: {count} product', other: 'Total: {count} products' },
+  'showcase.viewInLive': 'View in live',
+  'showcase.livestreamRooms': 'Livestream Rooms',
+  'showcase.roomsTitle': 'Create a room and join quickly',
+  'showcase.roomTitleLabel': 'Room name',
+  'showcase.roomTitlePlaceholder': 'Livestream room name',
+  'showcase.createRoom': 'Create room',
+  'showcase.loginToCreateRoom': 'Log in to create a room.',
+  'showcase.host': 'Host',
+  'showcase.join': 'Join',
+  'showcase.copyLink': 'Copy link',
+  'showcase.joinLivestream': 'Join livestream',
+  'showcase.registerSubmit': 'Submit sign-up',
+  'showcase.roomIdLabel': 'Room ID',
+  'showcase.roomIdPlaceholder': 'e.g. ls-abc-123',
+  'showcase.roleLabel': 'Role',
+  'showcase.roleViewer': 'Viewer',
+  'showcase.roleSeller': 'Seller',
+  'showcase.openRoom': 'Open live room',
+  'showcase.flutterPing': 'Ping Flutter',
+  'showcase.flutterReply': 'Flutter replied: {message}',
+};
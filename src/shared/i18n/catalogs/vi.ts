@@ -0,0 +1,325 @@
+import type { Message } from '../i18n';
+
+export const vi = {
+  'common.loading': 'Đang tải...',
+  'common.home': 'Về trang chủ',
+  'common.dashboard': 'Bảng điều khiển',
+  'common.logout': 'Đăng xuất',
+  'common.login': 'Đăng nhập',
+  'common.register': 'Đăng ký',
+  'common.close': 'Đóng',
+  'common.send': 'Gửi',
+  'common.cancel': 'Huỷ',
+  'common.email': 'Email',
+  'common.password': 'Mật khẩu',
+  'common.confirmPassword': 'Xác nhận mật khẩu',
+  'common.error': 'Lỗi',
+  'common.retry': 'Thử lại',
+  'common.none': 'chưa có',
+  'common.language': 'Ngôn ngữ',
+
+  'validation.emailInvalid': 'Email không hợp lệ',
+  'validation.passwordMin': 'Mật khẩu tối thiểu 6 ký tự',
+  'validation.confirmPasswordMin': 'Xác nhận mật khẩu tối thiểu 6 ký tự',
+  'validation.passwordMismatch': 'Mật khẩu xác nhận không khớp',
+  'validation.productTitleMin': 'Tên sản phẩm quá ngắn',
+  'validation.productDescriptionMin': 'Mô tả tối thiểu 5 ký tự',
+  'validation.pricePositive': 'Giá phải lớn hơn 0',
+  'validation.priceInvalid': 'Giá không hợp lệ',
+  'validation.imageUrlInvalid': 'URL ảnh không hợp lệ',
+  'validation.roomTitleMin': 'Tên phòng tối thiểu 3 ký tự',
+  'validation.roomIdInvalid': 'Room ID không hợp lệ',
+
+  'errors.network': 'Không kết nối được máy chủ. Kiểm tra mạng và thử lại.',
+  'errors.timeout': 'Máy chủ phản hồi quá lâu. Vui lòng thử lại.',
+  'errors.validation': 'Dữ liệu gửi lên không hợp lệ.',
+  'errors.auth': 'Phiên đăng nhập không hợp lệ hoặc bạn không có quyền.',
+  'errors.notFound': 'Không tìm thấy dữ liệu yêu cầu.',
+  'errors.server': 'Máy chủ đang gặp sự cố. Vui lòng thử lại sau.',
+  'errors.unknown': 'Có lỗi xảy ra',
+  'errors.title.network': 'Mất kết nối',
+  'errors.title.timeout': 'Hết thời gian chờ',
+  'errors.title.validation': 'Dữ liệu không hợp lệ',
+  'errors.title.auth': 'Lỗi xác thực',
+  'errors.title.notFound': 'Không tìm thấy',
+  'errors.title.server': 'Lỗi máy chủ',
+  'errors.title.unknown': 'Có lỗi xảy ra',
+  'errors.pendingApproval': 'Tài khoản {email} vẫn đang chờ admin duyệt.',
+
+  'notFound.title': 'Không tìm thấy trang',
+  'notFound.description': 'Đường dẫn không tồn tại hoặc đã bị thay đổi.',
+
+  'auth.pendingApproval': '{email} đã đăng ký với trạng thái',
+  'auth.registerSeller': 'Đăng ký người bán',
+
+  'product.status.DRAFT': 'Nháp',
+  'product.status.LIVE': 'Đang live',
+  'product.status.ACTIVE': 'Đang bán',
+  'product.status.OUT_OF_STOCK': 'Hết hàng',
+  'product.status.ARCHIVED': 'Lưu trữ',
+
+  'order.placed': 'Đặt hàng thành công. Mã đơn #{id}',
+  'order.source.LIVE': 'Livestream',
+  'order.source.STORE': 'Cửa hàng',
+  'order.status.PENDING': 'Chờ xử lý',
+  'order.status.CONFIRMED': 'Đã xác nhận',
+  'order.status.PROCESSING': 'Đang xử lý',
+  'order.status.SHIPPED': 'Đang giao',
+  'order.status.DELIVERED': 'Đã giao',
+  'order.status.CANCELED': 'Đã hủy',
+
+  'chat.loading': 'Đang tải tin nhắn gần đây...',
+  'chat.empty': 'Chưa có bình luận nào. Hãy chào một câu!',
+  'chat.guest': 'Khách #{id}',
+  'chat.sellerBadge': 'Người bán',
+  'chat.newMessages': { other: '{count} tin nhắn mới' },
+  'chat.blockedWord': 'Tin nhắn chứa từ bị chặn: "{word}"',
+  'chat.report': 'Báo cáo',
+  'chat.reported': 'Đã báo cáo',
+  'chat.reports': { other: '{count} báo cáo' },
+  'chat.delete': 'Xoá',
+  'chat.timeout': 'Tạm khoá',
+  'chat.ban': 'Cấm',
+  'chat.hidden.deleted': 'Tin nhắn đã bị chủ phòng xoá',
+  'chat.hidden.banned': 'Tin nhắn của người dùng bị cấm',
+  'chat.hidden.filtered': 'Đã ẩn bởi bộ lọc chat',
+  'chat.banned': 'Bạn đã bị cấm chat trong phiên live này.',
+  'chat.timedOut': 'Chủ phòng đã tạm khoá chat của bạn. Bạn có thể chat lại khi hết thời gian đếm ngược.',
+  'chat.wait': 'Chờ {seconds}s',
+  'chat.slowModeHint': 'Chế độ chậm: mỗi {seconds}s một tin nhắn',
+
+  'moderation.title': 'Kiểm duyệt chat',
+  'moderation.slowMode': 'Chế độ chậm',
+  'moderation.slowModeOff': 'Tắt',
+  'moderation.slowModeSeconds': 'Mỗi {seconds}s',
+  'moderation.blockedWords': 'Từ bị chặn',
+  'moderation.blockedWordsPlaceholder': 'Phân tách từ hoặc liên kết bằng dấu phẩy',
+  'moderation.saveWords': 'Lưu danh sách',
+  'moderation.banned': 'Bị cấm',
+  'moderation.timedOutUntil': 'Tạm khoá đến {time}',
+  'moderation.lift': 'Gỡ',
+
+  'qa.title': 'Ghim & Hỏi đáp',
+  'qa.pin': 'Ghim',
+  'qa.unpin': 'Bỏ ghim',
+  'qa.pinned': 'Đã ghim',
+  'qa.announcementPlaceholder': 'Ghim thông báo cho mọi người xem...',
+  'qa.question': 'Câu hỏi',
+  'qa.answered': 'Đã trả lời',
+  'qa.askAsQuestion': 'Gửi như câu hỏi cho người bán',
+  'qa.openCount': { other: '{count} câu hỏi chưa trả lời' },
+  'qa.answeredCount': { other: '{count} câu đã trả lời' },
+  'qa.empty': 'Chưa có câu hỏi nào.',
+  'qa.markAnswered': 'Đánh dấu đã trả lời',
+  'qa.reopen': 'Mở lại',
+  'qa.showOnScreen': 'Hiện lên màn hình',
+  'qa.hideFromScreen': 'Ẩn khỏi màn hình',
+
+  'reactions.heart': 'Thả tim',
+  'reactions.fire': 'Quá đỉnh',
+  'reactions.clap': 'Vỗ tay',
+  'reactions.buy': 'Chốt đơn',
+  'reactions.rate': 'Cảm xúc: {value}/s',
+  'reactions.peak': 'Cao nhất {value}/s',
+  'reactions.sparklineLabel': 'Số cảm xúc mỗi giây trong một phút qua',
+
+  'room.label': 'Phòng: {roomId}',
+  'room.viewerCount': { other: '{count} người xem' },
+  'room.liveComments': 'Bình luận trực tiếp',
+  'room.commentPlaceholder': 'Nhập bình luận...',
+  'room.defaultTitle': 'Livestream sản phẩm',
+  'room.guard.notFoundTitle': 'Phòng livestream không tồn tại',
+  'room.guard.loadFailedTitle': 'Không tải được thông tin phòng',
+  'room.guard.profileFailedTitle': 'Không kiểm tra được tài khoản của bạn',
+  'room.guard.profileFailedDescription': 'Bảng điều khiển chỉ mở khi xác nhận được phòng này là của bạn. Kiểm tra kết nối rồi thử lại.',
+  'room.guard.forbiddenEyebrow': 'Không có quyền',
+  'room.guard.forbiddenTitle': 'Bạn không phải chủ phòng này',
+  'room.guard.forbiddenDescription': 'Chỉ người bán đã tạo phòng mới mở được bảng điều phối livestream. Bạn vẫn có thể vào xem như người xem.',
+  'room.guard.endedEyebrow': 'Đã kết thúc',
+  'room.guard.endedTitle': 'Phiên live này đã kết thúc',
+  'room.watchLive': 'Xem live',
+  'room.status.scheduled': 'Chưa bắt đầu',
+  'room.status.active': 'Đang live',
+  'room.status.ended': 'Đã kết thúc',
+
+  'host.title': 'Điều phối livestream',
+  'host.onlineViewers': { other: '{count} người xem trực tuyến' },
+  'host.shareTitle': 'Giới thiệu sản phẩm trong live',
+  'host.selectProduct': 'Chọn sản phẩm',
+  'host.shareProduct': 'Đẩy sản phẩm lên live',
+  'host.viewerRoute': 'Người xem #{peerId}',
+  'host.directPeers': '{count}/{max} kết nối trực tiếp',
+  'host.connectFailed': 'Không kết nối được tới phòng.',
+  'host.endLive': 'Kết thúc live',
+  'host.endLiveConfirmTitle': 'Kết thúc phiên live?',
+  'host.endLiveConfirmDescription': 'Người xem sẽ bị ngắt kết nối và không thể mở lại phiên live này.',
+
+  'preflight.title': 'Kiểm tra trước khi lên sóng',
+  'preflight.hint': 'Chỉ bạn thấy bản xem trước này. Kiểm tra camera, micro rồi bấm "Bắt đầu live".',
+  'preflight.micLevel': 'Mức âm thanh micro',
+  'preflight.goLive': 'Bắt đầu live',
+  'preflight.startFailed': 'Không bắt đầu được phiên live. Vui lòng thử lại.',
+
+  'media.camera': 'Camera',
+  'media.microphone': 'Micro',
+  'media.mute': 'Tắt mic',
+  'media.unmute': 'Bật mic',
+  'media.cameraOff': 'Tắt camera',
+  'media.cameraOn': 'Bật camera',
+  'media.shareScreen': 'Chia sẻ màn hình',
+  'media.stopScreenShare': 'Dừng chia sẻ',
+  'media.deviceError': 'Không mở được thiết bị. Kiểm tra quyền truy cập và thử lại.',
+  'media.hostMuted': 'Người bán đang tắt mic',
+  'media.hostCameraOff': 'Người bán đã tắt camera',
+  'media.hostSharingScreen': 'Đang chia sẻ màn hình',
+
+  'viewer.title': 'Xem livestream',
+  'viewer.online': { other: 'Online: {count} người xem' },
+  'viewer.joinFailed': 'Không vào được room hoặc room đã kết thúc.',
+  'viewer.notStarted': 'Phiên live chưa bắt đầu',
+  'viewer.notStartedHint': 'Trang sẽ tự kết nối khi người bán lên sóng.',
+  'viewer.roomFull': 'Phiên live đang đủ người xem',
+  'viewer.roomFullHint': 'Bạn đang trong hàng chờ, video sẽ tự phát khi có chỗ trống.',
+  'viewer.banned': 'Bạn đã bị mời khỏi phiên live',
+  'viewer.bannedHint': 'Chủ phòng đã cấm bạn xem video và chat.',
+  'viewer.featuredProducts': 'Sản phẩm đang giới thiệu',
+  'viewer.buyNow': 'Mua ngay trên live',
+
+  'live.state.idle': 'Chưa kết nối',
+  'live.state.joining': 'Đang vào phòng',
+  'live.state.negotiating': 'Đang kết nối video',
+  'live.state.live': 'Đang phát',
+  'live.state.reconnecting': 'Đang kết nối lại',
+  'live.state.ended': 'Đã kết thúc',
+  'live.state.failed': 'Kết nối thất bại',
+
+  'demo.title': 'Demo loopback',
+  'demo.hint': 'Người phát và người xem chạy trong tab này qua kênh loopback nội bộ, không cần backend, socket hay máy chủ media.',
+  'demo.host': 'Người phát',
+  'demo.viewer': 'Người xem #{id}',
+  'demo.addViewer': 'Thêm người xem',
+  'demo.removeViewer': 'Xoá',
+
+  'connection.connecting': 'Đang kết nối máy chủ livestream...',
+  'connection.reconnecting': 'Mất kết nối, đang kết nối lại...',
+  'connection.reconnectingAttempt': 'Mất kết nối, đang thử lại (lần {attempt})...',
+  'connection.offline': 'Không kết nối được máy chủ livestream.',
+  'connection.retry': 'Thử lại',
+  'connection.restored': 'Đã kết nối lại.',
+  'connection.simulateDisconnect': 'Giả lập mất kết nối',
+
+  'replay.watch': 'Xem lại',
+  'replay.eyebrow': 'Phát lại livestream',
+  'replay.notAvailableTitle': 'Phiên live này chưa có bản phát lại',
+  'replay.loadFailedTitle': 'Không tải được bản phát lại',
+  'replay.chapters': 'Chương theo sản phẩm',
+  'replay.comments': 'Bình luận',
+  'replay.noProductsYet': 'Sản phẩm sẽ hiện khi video phát tới lúc người bán giới thiệu.',
+  'replay.buy': 'Mua ngay',
+  'replay.jumpTo': 'Xem đoạn {time}',
+
+  'recording.title': 'Ghi hình',
+  'recording.start': 'Bắt đầu ghi',
+  'recording.pause': 'Tạm dừng',
+  'recording.resume': 'Tiếp tục',
+  'recording.stop': 'Dừng ghi',
+  'recording.startFailed': 'Trình duyệt không ghi được luồng này.',
+  'recording.stopFailed': 'Không kết thúc được bản ghi. Vui lòng thử lại.',
+  'recording.writeFailed': 'Đã dừng ghi hình: trình duyệt không lưu được (bộ nhớ có thể đã đầy). Phần đã lưu được liệt kê bên dưới.',
+  'recording.liveOnly': 'Chỉ ghi được khi đang live.',
+  'recording.products': { other: '{count} sản phẩm trên timeline' },
+  'recording.interrupted': 'Bị gián đoạn, đã khôi phục đến đoạn cuối đã lưu',
+  'recording.download': 'Tải xuống',
+  'recording.upload': 'Tải lên',
+  'recording.uploading': 'Đang tải lên...',
+  'recording.uploaded': 'Đã tải lên.',
+  'recording.uploadFailed': 'Tải lên thất bại. Vui lòng thử lại.',
+  'recording.downloadFailed': 'Không đọc được bản ghi này từ bộ nhớ trình duyệt.',
+  'recording.deleteFailed': 'Không xoá được bản ghi này. Vui lòng thử lại.',
+  'recording.failed': 'Việc ghi hình đã dừng do lỗi. Phần đã lưu vẫn được giữ lại.',
+  'recording.delete': 'Xoá',
+
+  'health.title': 'Tình trạng kết nối',
+  'health.totalUpload': 'Tổng upload: {value}',
+  'health.uploadWarning': 'Băng thông upload đang rất cao, người xem có thể bị giật. Hãy giảm số người xem trực tiếp hoặc dùng mạng ổn định hơn.',
+  'health.noViewers': 'Chưa có người xem kết nối.',
+  'health.viewer': 'Người xem',
+  'health.ice': 'ICE',
+  'health.rtt': 'RTT',
+  'health.loss': 'Mất gói',
+  'health.bitrate': 'Bitrate',
+  'health.fps': 'FPS',
+  'health.details': 'RTT {rtt} · mất gói {loss} · {bitrate} · {fps} fps',
+  'health.quality.good': 'Kết nối tốt',
+  'health.quality.fair': 'Kết nối trung bình',
+  'health.quality.poor': 'Kết nối yếu',
+
+  'ice.route': 'Đường truyền: {type}',
+  'ice.pending': 'đang xác định',
+  'ice.relayOnly': 'Chẩn đoán: chỉ dùng TURN relay',
+  'ice.candidate.host': 'mạng nội bộ (host)',
+  'ice.candidate.srflx': 'trực tiếp qua NAT (srflx)',
+  'ice.candidate.prflx': 'trực tiếp (prflx)',
+  'ice.candidate.relay': 'chuyển tiếp TURN (relay)',
+
+  'dashboard.heroBadge': 'AI + Live Commerce',
+  'dashboard.heroTitle': 'Client portal với hiệu ứng Three.js đã khôi phục',
+  'dashboard.heroDescription': 'Đăng nhập để tạo phiên live và quản lý sản phẩm. Form đăng ký mở bằng drawer, trạng thái mặc định chờ duyệt để đồng bộ với CMS admin.',
+  'dashboard.loginTitle': 'Đăng nhập hệ thống',
+  'dashboard.openRegister': 'Đăng ký tài khoản mới',
+  'dashboard.registerHint': 'Sau khi gửi, tài khoản sẽ ở trạng thái PENDING_APPROVAL để admin CMS duyệt.',
+  'dashboard.registerSubmit': 'Gửi đăng ký chờ duyệt',
+  'dashboard.title': 'Bảng điều khiển người bán',
+  'dashboard.createProduct': 'Tạo sản phẩm',
+  'dashboard.productTitle': 'Tên sản phẩm',
+  'dashboard.productDescription': 'Mô tả',
+  'dashboard.productPrice': 'Giá',
+  'dashboard.productImageUrl': 'URL hình ảnh',
+  'dashboard.saveProduct': 'Lưu sản phẩm',
+  'dashboard.createRoom': 'Tạo room livestream',
+  'dashboard.roomTitle': 'Tên phòng live',
+  'dashboard.createRoomSubmit': 'Tạo room',
+  'dashboard.roomId': 'ID: {id}',
+  'dashboard.hostLive': 'Phát live',
+  'dashboard.copyLink': 'Sao chép link',
+  'dashboard.productsOnSale': 'Sản phẩm đang bán',
+  'dashboard.productStatus': 'Trạng thái: {status}',
+  'dashboard.buyNow': 'Mua ngay',
+  'dashboard.recentOrders': 'Đơn hàng gần đây',
+  'dashboard.orderTotal': 'Tổng tiền: {total}',
+  'dashboard.orderRoom': '(phòng: {roomId})',
+
+  'showcase.tagline': 'Giao diện động không dùng Framer',
+  'showcase.livestream': 'Livestream',
+  'showcase.theme': 'Theme: {name}',
+  'showcase.aurora.title': 'Template động Aurora',
+  'showcase.aurora.subtitle': 'Hiệu ứng chuyển động mượt cho không gian live-commerce.',
+  'showcase.ember.title': 'Template động Ember',
+  'showcase.ember.subtitle': 'Tông ấm nổi bật sản phẩm và CTA trong livestream.',
+  'showcase.welcomeTitle': 'Chào mừng đến Live Commerce',
+  'showcase.welcomeDescription': 'Bạn cần đăng nhập để sử dụng đầy đủ tính năng. Chọn một trong hai tùy chọn bên dưới để tiếp tục.',
+  'showcase.joinLive': 'Tham gia phiên live',
+  'showcase.productFeed': 'Product Feed',
+  'showcase.productsOnSale': 'Sản phẩm đang mở bán',
+  'showcase.productTotal': { other: 'Tổng: {count} sản phẩm' },
+  'showcase.viewInLive': 'Xem trong live',
+  'showcase.livestreamRooms': 'Livestream Rooms',
+  'showcase.roomsTitle': 'Tạo phòng và tham gia nhanh',
+  'showcase.roomTitleLabel': 'Tên phòng',
+  'showcase.roomTitlePlaceholder': 'Tên phòng livestream',
+  'showcase.createRoom': 'Tạo phòng mới',
+  'showcase.loginToCreateRoom': 'Bạn cần đăng nhập để tạo phòng.',
+  'showcase.host': 'Host',
+  'showcase.join': 'Join',
+  'showcase.copyLink': 'Copy link',
+  'showcase.joinLivestream': 'Tham gia livestream',
+  'showcase.registerSubmit': 'Gửi đăng ký',
+  'showcase.roomIdLabel': 'Mã phòng',
+  'showcase.roomIdPlaceholder': 'Ví dụ: ls-abc-123',
+  'showcase.roleLabel': 'Vai trò',
+  'showcase.roleViewer': 'Người xem',
+  'showcase.roleSeller': 'Người bán',
+  'showcase.openRoom': 'Mở trang phòng live',
+  'showcase.flutterPing': 'Gửi tín hiệu Flutter',
+  'showcase.flutterReply': 'Flutter phản hồi: {message}',
+} satisfies Record<string, Message>;
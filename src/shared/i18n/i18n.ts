@@ -0,0 +1,74 @@
+import { useAppStore } from '../store/app-store';
+import { en } from './catalogs/en';
+import { vi } from './catalogs/vi';
+
+export type Locale = 'vi' | 'en';
+export type PluralMessage = Partial<Record<Intl.LDMLPluralRule, string>> & { other: string };
+export type Message = string | PluralMessage;
+export type MessageKey = keyof typeof vi;
+export type Catalog = Record<MessageKey, Message>;
+export type MessageParams = Record<string, string | number>;
+
+export const locales: Record<Locale, { label: string; intl: string }> = {
+  vi: { label: 'Tiếng Việt', intl: 'vi-VN' },
+  en: { label: 'English', intl: 'en-US' },
+};
+
+const catalogs: Record<Locale, Catalog> = { vi, en };
+const pluralRules = new Map<Locale, Intl.PluralRules>();
+
+function selectPlural(locale: Locale, message: PluralMessage, count: number) {
+  let rules = pluralRules.get(locale);
+  if (!rules) {
+    rules = new Intl.PluralRules(locales[locale].intl);
+    pluralRules.set(locale, rules);
+  }
+  return message[rules.select(count)] ?? message.other;
+}
+
+function interpolate(template: string, params?: MessageParams) {
+  if (!params) {
+    return template;
+  }
+  return template.replace(/\{(\w+)\}/g, (match, name: string) => (name in params ? String(params[name]) : match));
+}
+
+export function isMessageKey(value: string): value is MessageKey {
+  return value in vi;
+}
+
+export function getLocale() {
+  return useAppStore.getState().locale;
+}
+
+/** Resolves a catalog entry for `locale`; plural entries pick their form from `params.count`. */
+export function translate(key: MessageKey, params?: MessageParams, locale: Locale = getLocale()) {
+  const message = catalogs[locale][key] ?? vi[key];
+  const template = typeof message === 'string' ? message : selectPlural(locale, message, Number(params?.count ?? 0));
+  return interpolate(template, params);
+}
+
+/**
+ * Translates a message that may be a catalog key (zod schemas store keys) or already-final text
+ * (server validation messages mapped onto form fields), passing the latter through untouched.
+ */
+export function translateMessage(message: string | undefined, locale: Locale = getLocale()) {
+  if (!message) {
+    return undefined;
+  }
+  return isMessageKey(message) ? translate(message, undefined, locale) : message;
+}
+
+/** Identity helper that type-checks catalog keys used as zod error messages. */
+export function messageKey(key: MessageKey) {
+  return key;
+}
+
+export function syncDocumentLocale() {
+  document.documentElement.lang = getLocale();
+  return useAppStore.subscribe((state, previous) => {
+    if (state.locale !== previous.locale) {
+      document.documentElement.lang = state.locale;
+    }
+  });
+}
@@ -0,0 +1,15 @@
+import { useCallback } from 'react';
+import { formatMoney } from '../lib/money';
+import { useAppStore } from '../store/app-store';
+import { translate, translateMessage, type MessageKey, type MessageParams } from './i18n';
+
+export function useTranslation() {
+  const locale = useAppStore((state) => state.locale);
+  const setLocale = useAppStore((state) => state.setLocale);
+
+  const t = useCallback((key: MessageKey, params?: MessageParams) => translate(key, params, locale), [locale]);
+  const tm = useCallback((message: string | undefined) => translateMessage(message, locale), [locale]);
+  const money = useCallback((amount: number) => formatMoney(amount, { locale }), [locale]);
+
+  return { t, tm, money, locale, setLocale };
+}
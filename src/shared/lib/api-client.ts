@@ -1,25 +1,107 @@
-import axios from 'axios';
+import axios, { AxiosError, type InternalAxiosRequestConfig } from 'axios';
+import type { components } from '../../api-service/generated/schema';
+import type { RefreshResponse } from '../../api-service/models';
+import { useAppStore } from '../store/app-store';
+import { getAppConfig } from './app-config';
+
+type RetriableRequestConfig = InternalAxiosRequestConfig & { _retried?: boolean };
+
+const AUTH_ROUTES_WITHOUT_REFRESH = ['/auth/login', '/auth/register', '/auth/refresh'];
+// Only the server turning the refresh token down ends the session; timeouts and outages do not.
+const REFRESH_REJECTED_STATUSES = [401, 403];
 
 export const api = axios.create({
-  baseURL: 'http://localhost:3000',
   timeout: 10000,
 });
 
-api.interceptors.request.use((config) => {
-  const persisted = localStorage.getItem('shop-live-store');
-  let token = localStorage.getItem('accessToken');
+// Bare client for the refresh call so it never goes through the 401 interceptor below.
+const refreshClient = axios.create({
+  timeout: 10000,
+});
 
-  if (!token && persisted) {
-    try {
-      const parsed = JSON.parse(persisted) as { state?: { accessToken?: string | null } };
-      token = parsed.state?.accessToken ?? null;
-    } catch {
-      token = null;
-    }
+refreshClient.interceptors.request.use((config) => {
+  config.baseURL = getAppConfig().apiBaseUrl;
+  return config;
+});
+
+let refreshPromise: Promise<string> | null = null;
+
+function readStoredTokens() {
+  const { accessToken, refreshToken } = useAppStore.getState();
+  return { accessToken, refreshToken };
+}
+
+function forceLogout() {
+  useAppStore.getState().clearAuth();
+}
+
+async function refreshAccessToken() {
+  const { refreshToken } = readStoredTokens();
+  if (!refreshToken) {
+    throw new Error('Missing refresh token');
   }
+  const { data } = await refreshClient.post<RefreshResponse>('/auth/refresh', {
+    refreshToken,
+  } satisfies components['schemas']['RefreshTokenDto']);
+  useAppStore.getState().setAuth(data.accessToken, data.refreshToken ?? refreshToken);
+  return data.accessToken;
+}
+
+function isRefreshRejected(error: unknown) {
+  return axios.isAxiosError(error) && REFRESH_REJECTED_STATUSES.includes(error.response?.status ?? 0);
+}
 
-  if (token) {
-    config.headers.Authorization = `Bearer ${token}`;
+/**
+ * Shares one in-flight refresh between every request that hit a 401, so a burst of
+ * expired calls exchanges the refresh token once and then replays with the new access token.
+ * A network failure rejects the waiting requests but keeps the session for the next attempt.
+ */
+function getFreshAccessToken() {
+  if (!refreshPromise) {
+    refreshPromise = refreshAccessToken()
+      .catch((error: unknown) => {
+        if (isRefreshRejected(error)) {
+          forceLogout();
+        }
+        throw error;
+      })
+      .finally(() => {
+        refreshPromise = null;
+      });
+  }
+  return refreshPromise;
+}
+
+api.interceptors.request.use((config) => {
+  config.baseURL = getAppConfig().apiBaseUrl;
+  const { accessToken } = readStoredTokens();
+  if (accessToken) {
+    config.headers.Authorization = `Bearer ${accessToken}`;
   }
   return config;
 });
+
+api.interceptors.response.use(
+  (response) => response,
+  async (error: AxiosError) => {
+    const config = error.config as RetriableRequestConfig | undefined;
+    const isAuthRoute = AUTH_ROUTES_WITHOUT_REFRESH.some((route) => config?.url?.startsWith(route));
+
+    if (error.response?.status !== 401 || !config || config._retried || isAuthRoute) {
+      return Promise.reject(error);
+    }
+    if (!readStoredTokens().refreshToken) {
+      forceLogout();
+      return Promise.reject(error);
+    }
+
+    config._retried = true;
+    try {
+      const accessToken = await getFreshAccessToken();
+      config.headers.Authorization = `Bearer ${accessToken}`;
+    } catch {
+      return Promise.reject(error);
+    }
+    return api(config);
+  },
+);
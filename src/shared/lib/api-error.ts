@@ -0,0 +1,69 @@
+import { isAxiosError } from 'axios';
+import { translate, type MessageKey } from '../i18n/i18n';
+
+export type ApiErrorKind = 'network' | 'timeout' | 'validation' | 'auth' | 'not-found' | 'server' | 'unknown';
+
+export type ApiError = {
+  kind: ApiErrorKind;
+  status: number | null;
+  message: string;
+  messages: string[];
+};
+
+const defaultMessageKeys: Record<ApiErrorKind, MessageKey> = {
+  network: 'errors.network',
+  timeout: 'errors.timeout',
+  validation: 'errors.validation',
+  auth: 'errors.auth',
+  'not-found': 'errors.notFound',
+  server: 'errors.server',
+  unknown: 'errors.unknown',
+};
+
+/** Client-side failures that already know how they should be classified and worded. */
+export class ClientError extends Error {
+  constructor(
+    readonly kind: ApiErrorKind,
+    message: string,
+  ) {
+    super(message);
+    this.name = 'ClientError';
+  }
+}
+
+function classifyStatus(status: number): ApiErrorKind {
+  if (status === 400 || status === 409 || status === 422) {
+    return 'validation';
+  }
+  if (status === 401 || status === 403) {
+    return 'auth';
+  }
+  if (status === 404) {
+    return 'not-found';
+  }
+  return status >= 500 ? 'server' : 'unknown';
+}
+
+export function normalizeApiError(error: unknown): ApiError {
+  if (error instanceof ClientError) {
+    return { kind: error.kind, status: null, message: error.message, messages: [error.message] };
+  }
+  if (!isAxiosError<{ message?: string | string[] }>(error)) {
+    return { kind: 'unknown', status: null, message: translate(defaultMessageKeys.unknown), messages: [] };
+  }
+  if (!error.response) {
+    const kind = error.code === 'ECONNABORTED' || error.code === 'ETIMEDOUT' ? 'timeout' : 'network';
+    return { kind, status: null, message: translate(defaultMessageKeys[kind]), messages: [] };
+  }
+
+  const { status, data } = error.response;
+  const kind = classifyStatus(status);
+  const raw = data?.message;
+  const messages = raw ? (Array.isArray(raw) ? raw : [raw]) : [];
+  return {
+    kind,
+    status,
+    message: messages.length ? messages.join(', ') : translate(defaultMessageKeys[kind]),
+    messages,
+  };
+}
@@ -0,0 +1,60 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+
+function serveConfig(body: string, ok = true) {
+  vi.stubGlobal('fetch', vi.fn(async () => ({ ok, json: async () => JSON.parse(body) as unknown })));
+}
+
+// `currentConfig` is module state, so every test loads a fresh copy of the module.
+async function load() {
+  const { loadAppConfig } = await import('./app-config');
+  return loadAppConfig();
+}
+
+beforeEach(() => {
+  vi.resetModules();
+});
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+});
+
+describe('loadAppConfig', () => {
+  it('applies well-formed runtime keys and derives the socket URL from apiBaseUrl', async () => {
+    serveConfig(JSON.stringify({ apiBaseUrl: 'https://api.shop.example/', iceServers: [{ urls: ['turn:turn.example'] }], maxDirectPeers: 4, features: { flutterBridge: false } }));
+
+    const config = await load();
+
+    expect(config.apiBaseUrl).toBe('https://api.shop.example');
+    expect(config.livestreamSocketUrl).toBe('https://api.shop.example/livestream');
+    expect(config.iceServers).toEqual([{ urls: ['turn:turn.example'] }]);
+    expect(config.maxDirectPeers).toBe(4);
+    expect(config.features).toEqual({ flutterBridge: false, showcaseThemeSwitch: true });
+  });
+
+  it('keeps the build-time value for each key with the wrong shape without dropping the valid ones', async () => {
+    serveConfig(
+      JSON.stringify({
+        apiBaseUrl: 'https://api.shop.example',
+        iceServers: 'stun:stun.example',
+        maxDirectPeers: true,
+        features: { flutterBridge: 'no', unknownFlag: true },
+      }),
+    );
+
+    const config = await load();
+
+    expect(config.apiBaseUrl).toBe('https://api.shop.example');
+    expect(config.iceServers).toEqual([{ urls: 'stun:stun.l.google.com:19302' }]);
+    expect(config.maxDirectPeers).toBe(8);
+    expect(config.features).toEqual({ flutterBridge: true, showcaseThemeSwitch: true });
+  });
+
+  it('keeps the build-time config when the file is missing or not an object', async () => {
+    serveConfig('[]');
+    expect((await load()).apiBaseUrl).toBe('http://localhost:3000');
+
+    vi.resetModules();
+    serveConfig('{}', false);
+    expect((await load()).apiBaseUrl).toBe('http://localhost:3000');
+  });
+});
@@ -0,0 +1,116 @@
+export type FeatureFlag = 'flutterBridge' | 'showcaseThemeSwitch';
+
+export type AppConfig = {
+  apiBaseUrl: string;
+  livestreamSocketUrl: string;
+  iceServers: RTCIceServer[];
+  /** Viewers the host serves directly over the WebRTC mesh; anyone beyond this sees a "room full" notice. */
+  maxDirectPeers: number;
+  features: Record<FeatureFlag, boolean>;
+};
+
+/** `config.json` as read from the network: every key is checked before it replaces a build-time value. */
+type RuntimeConfig = Partial<Record<keyof AppConfig, unknown>>;
+
+const RUNTIME_CONFIG_PATH = '/config.json';
+const DEFAULT_MAX_DIRECT_PEERS = 8;
+const DEFAULT_ICE_SERVERS: RTCIceServer[] = [{ urls: 'stun:stun.l.google.com:19302' }];
+const DEFAULT_FEATURES: Record<FeatureFlag, boolean> = { flutterBridge: true, showcaseThemeSwitch: true };
+
+function parseJsonEnv(raw: string | undefined): unknown {
+  if (!raw) {
+    return undefined;
+  }
+  try {
+    return JSON.parse(raw) as unknown;
+  } catch {
+    return undefined;
+  }
+}
+
+const isRecord = (value: unknown): value is Record<string, unknown> => typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const isNonEmptyString = (value: unknown): value is string => typeof value === 'string' && value.trim() !== '';
+
+const isIceServer = (value: unknown): value is RTCIceServer =>
+  isRecord(value) && (isNonEmptyString(value.urls) || (Array.isArray(value.urls) && value.urls.length > 0 && value.urls.every(isNonEmptyString)));
+
+function readIceServers(value: unknown, fallback: RTCIceServer[]) {
+  return Array.isArray(value) && value.length > 0 && value.every(isIceServer) ? value : fallback;
+}
+
+function readPositiveInt(raw: unknown, fallback: number) {
+  const value = typeof raw === 'number' || typeof raw === 'string' ? Number(raw) : NaN;
+  return Number.isInteger(value) && value > 0 ? value : fallback;
+}
+
+/** Known flags with boolean values; anything else in the object is ignored. */
+function readFeatureFlags(value: unknown): Partial<Record<FeatureFlag, boolean>> {
+  if (!isRecord(value)) {
+    return {};
+  }
+  return Object.fromEntries(Object.entries(value).filter(([flag, enabled]) => flag in DEFAULT_FEATURES && typeof enabled === 'boolean'));
+}
+
+function trimTrailingSlash(url: string) {
+  return url.replace(/\/+$/, '');
+}
+
+function buildTimeConfig(): AppConfig {
+  const apiBaseUrl = trimTrailingSlash(import.meta.env.VITE_API_BASE_URL || 'http://localhost:3000');
+  return {
+    apiBaseUrl,
+    livestreamSocketUrl: import.meta.env.VITE_LIVESTREAM_SOCKET_URL || `${apiBaseUrl}/livestream`,
+    iceServers: readIceServers(parseJsonEnv(import.meta.env.VITE_ICE_SERVERS), DEFAULT_ICE_SERVERS),
+    maxDirectPeers: readPositiveInt(import.meta.env.VITE_MAX_DIRECT_PEERS, DEFAULT_MAX_DIRECT_PEERS),
+    features: { ...DEFAULT_FEATURES, ...readFeatureFlags(parseJsonEnv(import.meta.env.VITE_FEATURE_FLAGS)) },
+  };
+}
+
+let currentConfig: AppConfig = buildTimeConfig();
+
+/** Each runtime key replaces the build-time value only when it has the right shape; a bad key does not discard the others. */
+function mergeConfig(base: AppConfig, runtime: RuntimeConfig): AppConfig {
+  const runtimeApiBaseUrl = isNonEmptyString(runtime.apiBaseUrl) ? trimTrailingSlash(runtime.apiBaseUrl) : null;
+  const apiBaseUrl = runtimeApiBaseUrl ?? base.apiBaseUrl;
+  return {
+    apiBaseUrl,
+    livestreamSocketUrl: isNonEmptyString(runtime.livestreamSocketUrl)
+      ? runtime.livestreamSocketUrl
+      : runtimeApiBaseUrl
+        ? `${apiBaseUrl}/livestream`
+        : base.livestreamSocketUrl,
+    iceServers: readIceServers(runtime.iceServers, base.iceServers),
+    maxDirectPeers: readPositiveInt(runtime.maxDirectPeers, base.maxDirectPeers),
+    features: { ...base.features, ...readFeatureFlags(runtime.features) },
+  };
+}
+
+/**
+ * Loads `config.json` served next to `index.html` so one built image can be pointed at any backend.
+ * A missing file, or any key with the wrong shape, keeps the build-time (`VITE_*`) value.
+ */
+export async function loadAppConfig() {
+  try {
+    const response = await fetch(RUNTIME_CONFIG_PATH, { cache: 'no-store' });
+    const runtime: unknown = response.ok ? await response.json() : null;
+    if (isRecord(runtime)) {
+      currentConfig = mergeConfig(currentConfig, runtime);
+    }
+  } catch {
+    // Keep build-time fallbacks when the runtime file is missing or not JSON (e.g. `vite dev` without one).
+  }
+  return currentConfig;
+}
+
+export function getAppConfig() {
+  return currentConfig;
+}
+
+export function isFeatureEnabled(flag: FeatureFlag) {
+  return currentConfig.features[flag];
+}
+
+export function getRtcConfiguration(): RTCConfiguration {
+  return { iceServers: currentConfig.iceServers };
+}
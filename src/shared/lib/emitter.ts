@@ -0,0 +1,23 @@
+export type Listener<T> = (payload: T) => void;
+
+/** Minimal typed event emitter; `on` returns its own unsubscribe so it drops straight into `useEffect` cleanups. */
+export function createEmitter<Events extends Record<string, unknown>>() {
+  const listeners = new Map<keyof Events, Set<Listener<never>>>();
+
+  return {
+    on<K extends keyof Events>(event: K, listener: Listener<Events[K]>) {
+      const set = listeners.get(event) ?? new Set();
+      set.add(listener as Listener<never>);
+      listeners.set(event, set);
+      return () => {
+        set.delete(listener as Listener<never>);
+      };
+    },
+    emit<K extends keyof Events>(event: K, payload: Events[K]) {
+      listeners.get(event)?.forEach((listener) => (listener as Listener<Events[K]>)(payload));
+    },
+    clear() {
+      listeners.clear();
+    },
+  };
+}
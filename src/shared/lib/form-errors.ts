@@ -0,0 +1,32 @@
+import type { FieldValues, Path, UseFormReturn } from 'react-hook-form';
+import { ClientError, normalizeApiError } from './api-error';
+import { notifyError } from './notifications';
+
+/**
+ * Puts server validation messages (class-validator style, e.g. `"email must be an email"`) onto the
+ * matching form fields. Callers set `meta.inlineValidation`, which suppresses the global toast, so the
+ * messages that name none of `fields` are toasted here instead. Returns whether a field was set.
+ */
+export function applyServerFieldErrors<T extends FieldValues>(form: UseFormReturn<T>, error: unknown, fields: Array<Path<T>>) {
+  const apiError = normalizeApiError(error);
+  if (apiError.kind !== 'validation') {
+    return false;
+  }
+  let mapped = false;
+  const unmapped: string[] = [];
+  apiError.messages.forEach((message) => {
+    const field = fields.find((name) => new RegExp(`\\b${name}\\b`, 'i').test(message));
+    if (field) {
+      form.setError(field, { type: 'server', message });
+      mapped = true;
+    } else {
+      unmapped.push(message);
+    }
+  });
+  if (!mapped) {
+    notifyError(error);
+  } else if (unmapped.length) {
+    notifyError(new ClientError('validation', unmapped.join(', ')));
+  }
+  return mapped;
+}
@@ -0,0 +1,94 @@
+import type { Order } from '../../api-service/models';
+import { getLocale, locales, type Locale } from '../i18n/i18n';
+
+export type Currency = 'VND' | 'USD';
+
+export const DEFAULT_CURRENCY: Currency = 'VND';
+
+type MoneyOptions = {
+  currency?: Currency;
+  locale?: Locale;
+};
+
+const formatters = new Map<string, Intl.NumberFormat>();
+
+function getFormatter(locale: Locale, options: Intl.NumberFormatOptions) {
+  const cacheKey = `${locale}:${JSON.stringify(options)}`;
+  let formatter = formatters.get(cacheKey);
+  if (!formatter) {
+    formatter = new Intl.NumberFormat(locales[locale].intl, options);
+    formatters.set(cacheKey, formatter);
+  }
+  return formatter;
+}
+
+/** Minor-unit digits of `currency` as Intl knows them (0 for VND, 2 for USD). */
+export function currencyFractionDigits(currency: Currency = DEFAULT_CURRENCY) {
+  return getFormatter('en', { style: 'currency', currency }).resolvedOptions().maximumFractionDigits ?? 0;
+}
+
+function toMinorUnits(amount: number, currency: Currency) {
+  return Math.round(amount * 10 ** currencyFractionDigits(currency));
+}
+
+function fromMinorUnits(minor: number, currency: Currency) {
+  return minor / 10 ** currencyFractionDigits(currency);
+}
+
+export function roundMoney(amount: number, currency: Currency = DEFAULT_CURRENCY) {
+  return fromMinorUnits(toMinorUnits(amount, currency), currency);
+}
+
+/** Sums in integer minor units so float drift (0.1 + 0.2) never reaches a displayed total. */
+export function sumMoney(amounts: number[], currency: Currency = DEFAULT_CURRENCY) {
+  return fromMinorUnits(
+    amounts.reduce((total, amount) => total + toMinorUnits(amount, currency), 0),
+    currency,
+  );
+}
+
+/** Line totals are rounded before summing, matching how the order is itemised on screen. */
+export function orderItemsTotal(items: Order['items'], currency: Currency = DEFAULT_CURRENCY) {
+  return sumMoney(
+    items.map((item) => roundMoney(item.price * item.quantity, currency)),
+    currency,
+  );
+}
+
+export function formatMoney(amount: number, { currency = DEFAULT_CURRENCY, locale = getLocale() }: MoneyOptions = {}) {
+  return getFormatter(locale, { style: 'currency', currency }).format(roundMoney(amount, currency));
+}
+
+/** Plain grouped number (no symbol) for editable price fields. */
+export function formatMoneyInput(amount: number, { currency = DEFAULT_CURRENCY, locale = getLocale() }: MoneyOptions = {}) {
+  const digits = currencyFractionDigits(currency);
+  return getFormatter(locale, { maximumFractionDigits: digits }).format(roundMoney(amount, currency));
+}
+
+function separatorsFor(locale: Locale) {
+  const parts = getFormatter(locale, { useGrouping: true }).formatToParts(12345.6);
+  return {
+    group: parts.find((part) => part.type === 'group')?.value ?? ',',
+    decimal: parts.find((part) => part.type === 'decimal')?.value ?? '.',
+  };
+}
+
+const escapeRegExp = (value: string) => value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+/**
+ * Parses what a user typed into a price field using the locale's separators ("19.900" is
+ * nineteen thousand nine hundred in `vi`). Groups must be three digits wide and the decimal part
+ * may not be longer than the currency's minor unit (VND has none), so "1,5" in `en` is rejected
+ * rather than read as 15. Returns `null` for anything else.
+ */
+export function parseMoney(input: string, { currency = DEFAULT_CURRENCY, locale = getLocale() }: MoneyOptions = {}) {
+  const { group, decimal } = separatorsFor(locale);
+  const fractionDigits = currencyFractionDigits(currency);
+  const compact = input.replace(/\s/g, '');
+  const whole = `(?:\\d{1,3}(?:${escapeRegExp(group)}\\d{3})+|\\d+)`;
+  const fraction = fractionDigits > 0 ? `(?:${escapeRegExp(decimal)}\\d{1,${fractionDigits}})?` : '';
+  if (!new RegExp(`^${whole}${fraction}$`).test(compact)) {
+    return null;
+  }
+  return roundMoney(Number(compact.split(group).join('').replace(decimal, '.')), currency);
+}
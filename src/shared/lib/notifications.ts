@@ -0,0 +1,36 @@
+import { createStandaloneToast, type UseToastOptions } from '@chakra-ui/react';
+import { translate, type MessageKey } from '../i18n/i18n';
+import { normalizeApiError, type ApiErrorKind } from './api-error';
+
+export const { ToastContainer, toast } = createStandaloneToast({
+  defaultOptions: { position: 'top-right', duration: 5000, isClosable: true },
+});
+
+const errorTitleKeys: Record<ApiErrorKind, MessageKey> = {
+  network: 'errors.title.network',
+  timeout: 'errors.title.timeout',
+  validation: 'errors.title.validation',
+  auth: 'errors.title.auth',
+  'not-found': 'errors.title.notFound',
+  server: 'errors.title.server',
+  unknown: 'errors.title.unknown',
+};
+
+export function notifySuccess(title: string, description?: string) {
+  toast({ status: 'success', title, description });
+}
+
+export function notifyError(error: unknown, options?: Pick<UseToastOptions, 'title'>) {
+  const apiError = normalizeApiError(error);
+  const id = `${apiError.kind}:${apiError.message}`;
+  // Several queries failing for the same reason (e.g. backend down) should not stack identical toasts.
+  if (toast.isActive(id)) {
+    return;
+  }
+  toast({
+    id,
+    status: apiError.kind === 'validation' ? 'warning' : 'error',
+    title: options?.title ?? translate(errorTitleKeys[apiError.kind]),
+    description: apiError.message,
+  });
+}
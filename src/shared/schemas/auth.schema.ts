@@ -0,0 +1,21 @@
+import { z } from 'zod';
+import { messageKey } from '../i18n/i18n';
+
+export const loginSchema = z.object({
+  email: z.string().email(messageKey('validation.emailInvalid')),
+  password: z.string().min(6, messageKey('validation.passwordMin')),
+});
+
+export const registerSchema = z
+  .object({
+    email: z.string().email(messageKey('validation.emailInvalid')),
+    password: z.string().min(6, messageKey('validation.passwordMin')),
+    confirmPassword: z.string().min(6, messageKey('validation.confirmPasswordMin')),
+  })
+  .refine((values) => values.password === values.confirmPassword, {
+    path: ['confirmPassword'],
+    message: messageKey('validation.passwordMismatch'),
+  });
+
+export type LoginFormValues = z.infer<typeof loginSchema>;
+export type RegisterFormValues = z.infer<typeof registerSchema>;
@@ -0,0 +1,101 @@
+import type { QueryClient } from '@tanstack/react-query';
+import { isAxiosError } from 'axios';
+import { apiClient, type ApiRequestBody } from '../../api-service/client';
+import { translate } from '../i18n/i18n';
+import { ClientError, normalizeApiError } from '../lib/api-error';
+import type { RegisterFormValues } from '../schemas/auth.schema';
+import { APP_STORE_KEY, useAppStore } from '../store/app-store';
+
+const LEGACY_TOKEN_KEYS = ['accessToken', 'refreshToken', 'authEmail'] as const;
+
+export const sessionQueryKeys = {
+  all: ['session'] as const,
+  // Keyed on the signed-in user, not the access token, so a silent token refresh keeps the cached profile.
+  profile: (userId: number | null) => ['session', 'profile', userId] as const,
+};
+
+export class PendingApprovalError extends ClientError {
+  constructor(readonly email: string) {
+    super('auth', translate('errors.pendingApproval', { email }));
+    this.name = 'PendingApprovalError';
+  }
+}
+
+function isPendingApprovalRejection(error: unknown, email: string) {
+  if (!isAxiosError(error)) {
+    return false;
+  }
+  if (normalizeApiError(error).messages.some((message) => /pending|chờ duyệt/i.test(message))) {
+    return true;
+  }
+  // Older backends answer a not-yet-approved login with a bare 403; trust it only for the email we registered.
+  return error.response?.status === 403 && useAppStore.getState().pendingApproval?.email === email;
+}
+
+export async function login(credentials: ApiRequestBody<'/auth/login', 'post'>) {
+  const { pendingApproval, setAuth, setPendingApproval } = useAppStore.getState();
+  let data;
+  try {
+    data = await apiClient.post('/auth/login', { body: credentials });
+  } catch (error) {
+    if (isPendingApprovalRejection(error, credentials.email)) {
+      setPendingApproval({ email: credentials.email });
+      throw new PendingApprovalError(credentials.email);
+    }
+    throw error;
+  }
+
+  setAuth(data.accessToken, data.refreshToken, data.user);
+  if (pendingApproval?.email === data.user.email) {
+    setPendingApproval(null);
+  }
+  return data;
+}
+
+export async function register(values: RegisterFormValues) {
+  await apiClient.post('/auth/register', {
+    body: { email: values.email, password: values.password },
+  });
+  useAppStore.getState().setPendingApproval({ email: values.email });
+  return values.email;
+}
+
+export function logout() {
+  useAppStore.getState().clearAuth();
+}
+
+// Sessions used to be written to bare localStorage keys; adopt them once so nobody gets signed out by the upgrade.
+function migrateLegacyTokens() {
+  const accessToken = localStorage.getItem('accessToken');
+  const refreshToken = localStorage.getItem('refreshToken');
+  if (accessToken && refreshToken && !useAppStore.getState().accessToken) {
+    useAppStore.getState().setAuth(accessToken, refreshToken);
+  }
+  LEGACY_TOKEN_KEYS.forEach((key) => localStorage.removeItem(key));
+}
+
+/**
+ * Keeps every open tab on the same session: the persisted store is re-read whenever another tab
+ * writes it, and user-scoped queries are dropped as soon as this tab loses its access token.
+ */
+export function startSessionSync(queryClient: QueryClient) {
+  migrateLegacyTokens();
+
+  const onStorage = (event: StorageEvent) => {
+    if (event.key === APP_STORE_KEY || event.key === null) {
+      void useAppStore.persist.rehydrate();
+    }
+  };
+  window.addEventListener('storage', onStorage);
+
+  const unsubscribe = useAppStore.subscribe((state, previous) => {
+    if (previous.accessToken && !state.accessToken) {
+      queryClient.removeQueries({ queryKey: sessionQueryKeys.all });
+    }
+  });
+
+  return () => {
+    window.removeEventListener('storage', onStorage);
+    unsubscribe();
+  };
+}
@@ -0,0 +1,24 @@
+import { useMutation } from '@tanstack/react-query';
+import type { UseFormReturn } from 'react-hook-form';
+import { applyServerFieldErrors } from '../lib/form-errors';
+import type { RegisterFormValues } from '../schemas/auth.schema';
+import { useAppStore } from '../store/app-store';
+import { register } from './session';
+
+export function useRegistration(form: UseFormReturn<RegisterFormValues>, onRegistered?: (email: string) => void) {
+  const pendingApproval = useAppStore((state) => state.pendingApproval);
+
+  const registerMutation = useMutation({
+    mutationFn: register,
+    onSuccess: (email) => {
+      form.reset();
+      onRegistered?.(email);
+    },
+    onError: (error) => {
+      applyServerFieldErrors(form, error, ['email', 'password']);
+    },
+    meta: { inlineValidation: true },
+  });
+
+  return { registerMutation, pendingApproval };
+}
@@ -0,0 +1,30 @@
+import { useQuery } from '@tanstack/react-query';
+import { apiClient } from '../../api-service/client';
+import { useAppStore } from '../store/app-store';
+import { login, logout, sessionQueryKeys } from './session';
+
+export function useSession() {
+  const accessToken = useAppStore((state) => state.accessToken);
+  const user = useAppStore((state) => state.user);
+
+  const profileQuery = useQuery({
+    queryKey: sessionQueryKeys.profile(user?.id ?? null),
+    queryFn: () => apiClient.get('/auth/profile'),
+    enabled: Boolean(accessToken),
+    retry: false,
+    refetchOnWindowFocus: false,
+    staleTime: 5 * 60 * 1000,
+    // A rejected token is handled by the refresh interceptor and ends in logout, not a toast.
+    meta: { silent: true },
+  });
+
+  return {
+    accessToken,
+    isAuthenticated: Boolean(accessToken),
+    profile: profileQuery.data ?? null,
+    profileQuery,
+    email: profileQuery.data?.email ?? user?.email ?? null,
+    login,
+    logout,
+  };
+}
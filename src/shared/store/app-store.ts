@@ -1,36 +1,54 @@
 import { create } from 'zustand';
 import { persist } from 'zustand/middleware';
+import type { AuthUser, RoomStatus } from '../../api-service/models';
+import type { Locale } from '../i18n/i18n';
 
 type RoomSummary = {
   id: string;
   title: string;
-  status: 'active' | 'ended';
+  status: RoomStatus;
+};
+
+export type PendingApproval = {
+  email: string;
 };
 
 type AppState = {
   accessToken: string | null;
   refreshToken: string | null;
+  user: AuthUser | null;
   rooms: RoomSummary[];
-  setAuth: (accessToken: string, refreshToken: string) => void;
+  pendingApproval: PendingApproval | null;
+  locale: Locale;
+  setAuth: (accessToken: string, refreshToken: string, user?: AuthUser) => void;
   clearAuth: () => void;
   addRoom: (room: RoomSummary) => void;
   resetRooms: () => void;
+  setPendingApproval: (pendingApproval: PendingApproval | null) => void;
+  setLocale: (locale: Locale) => void;
 };
 
+export const APP_STORE_KEY = 'shop-live-store';
+
 export const useAppStore = create<AppState>()(
   persist(
     (set) => ({
       accessToken: null,
       refreshToken: null,
+      user: null,
       rooms: [],
-      setAuth: (accessToken, refreshToken) => set({ accessToken, refreshToken }),
-      clearAuth: () => set({ accessToken: null, refreshToken: null, rooms: [] }),
+      pendingApproval: null,
+      locale: 'vi',
+      setAuth: (accessToken, refreshToken, user) => set((state) => ({ accessToken, refreshToken, user: user ?? state.user })),
+      clearAuth: () => set({ accessToken: null, refreshToken: null, user: null, rooms: [] }),
       addRoom: (room) =>
         set((state) => ({
           rooms: [room, ...state.rooms.filter((item) => item.id !== room.id)],
         })),
       resetRooms: () => set({ rooms: [] }),
+      setPendingApproval: (pendingApproval) => set({ pendingApproval }),
+      setLocale: (locale) => set({ locale }),
     }),
-    { name: 'shop-live-store' },
+    { name: APP_STORE_KEY },
   ),
 );
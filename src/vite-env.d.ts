@@ -0,0 +1,13 @@
+/// <reference types="vite/client" />
+
+interface ImportMetaEnv {
+  readonly VITE_API_BASE_URL?: string;
+  readonly VITE_LIVESTREAM_SOCKET_URL?: string;
+  readonly VITE_ICE_SERVERS?: string;
+  readonly VITE_MAX_DIRECT_PEERS?: string;
+  readonly VITE_FEATURE_FLAGS?: string;
+}
+
+interface ImportMeta {
+  readonly env: ImportMetaEnv;
+}